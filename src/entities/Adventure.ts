@@ -0,0 +1,53 @@
+import { GameEffect } from '../services/EffectDispatcher';
+
+/**
+ * Enum representing different adventure levels available in the tavern
+ */
+export enum AdventureLevel {
+  RECRUITMENT = 'recruitment',
+  IN_TOWN = 'in_town',
+  OUTSIDE_TOWN = 'outside_town',
+  IN_FAR_LANDS = 'in_far_lands'
+}
+
+/**
+ * Adventure card that can be drawn in the tavern
+ * Effects are applied through the EffectDispatcher, except 'Card' effects which add cards to the discard pile
+ */
+export interface AdventureConfig {
+  id: string;
+  name: string;
+  description: string;
+  level: AdventureLevel;
+  cost: number; // Power needed to succeed
+  successEffects: GameEffect[];
+  failureEffects: GameEffect[];
+}
+
+/**
+ * Helper function to convert a level name to AdventureLevel enum
+ * @param level Adventure level as used in adventures.json
+ */
+export function stringToAdventureLevel(level: string): AdventureLevel {
+  const adventureLevel = Object.values(AdventureLevel).find(value => value === level.toLowerCase());
+  if (!adventureLevel) {
+    throw new Error(`Unknown adventure level: ${level}`);
+  }
+  return adventureLevel;
+}
+
+/**
+ * Function to convert adventure JSON data to AdventureConfig
+ * @param adventureJson Adventure entry from adventures.json
+ */
+export function convertAdventureJsonToConfig(adventureJson: any): AdventureConfig {
+  return {
+    id: adventureJson.id,
+    name: adventureJson.name || adventureJson.id,
+    description: adventureJson.description || '',
+    level: stringToAdventureLevel(adventureJson.level),
+    cost: adventureJson.cost || 0,
+    successEffects: (adventureJson.success_effects || []).map((effect: any) => ({ ...effect })),
+    failureEffects: (adventureJson.failure_effects || []).map((effect: any) => ({ ...effect }))
+  };
+}
@@ -1,21 +1,47 @@
+import { ResourceCost } from './Types';
+
+/**
+ * Moment when a building effect with a 'when' is applied
+ * Effects without a 'when' are applied once on construction or passively while the building stands
+ */
+export enum BuildingTrigger {
+  OnDayStart = 'on_day_start', // A new hand is drawn
+  OnDayEnd = 'on_day_end', // After the hand of the passed day is discarded, or after the battle ending the level
+  OnHandDiscard = 'on_hand_discard',
+  OnCardPlayed = 'on_card_played', // Applied once for every played card
+  OnConstruct = 'on_construct', // Any building is constructed or upgraded, including this one
+  OnInvasionArrival = 'on_invasion_arrival' // Before the battle against the arrived wave
+}
+
 /**
  * Interface for building effects
  */
 export interface BuildingEffect {
   type: string;
+  when?: string; // BuildingTrigger the effect is applied at
   recruits?: string[];
   [key: string]: any;
 }
 
+/**
+ * Conditions that have to be met before a building can be constructed
+ */
+export interface BuildingRequirements {
+  buildings: string[]; // IDs of buildings that have to be constructed, higher tiers count as well
+  day: number; // First day the building can be constructed on
+  inventionSpent: number; // Invention the player has to have spent during the run
+}
+
 export interface BuildingConfig {
   id: string;
   name: string;
   description: string;
   image: string;
-  cost?: {
-    construction: number;
-  };
+  cost?: ResourceCost;
   limit?: number | null;
+  upgradesTo?: string; // ID of the next tier the building can be upgraded to
+  requires?: BuildingRequirements;
+  multiDay?: boolean; // Constructed as a project that collects construction over several days
   effects: BuildingEffect[]; // Always defined, empty array if no effects
 }
 
@@ -47,10 +73,11 @@ export class Building {
   public readonly name: string;
   public readonly description: string;
   public readonly image: string;
-  public readonly cost?: {
-    construction: number;
-  };
+  public readonly cost?: ResourceCost;
   public readonly limit?: number | null;
+  public readonly upgradesTo?: string;
+  public readonly requires?: BuildingRequirements;
+  public readonly multiDay?: boolean;
   public readonly effects: BuildingEffect[];
 
   /**
@@ -64,6 +91,9 @@ export class Building {
     this.image = config.image;
     this.cost = config.cost;
     this.limit = config.limit;
+    this.upgradesTo = config.upgradesTo;
+    this.requires = config.requires;
+    this.multiDay = config.multiDay;
     this.effects = config.effects;
   }
 
@@ -84,10 +114,15 @@ export function convertBuildingJsonToConfig(buildingJson: any): BuildingConfig {
     name: buildingJson.name,
     description: buildingJson.description,
     image: buildingJson.image,
-    cost: buildingJson.cost ? {
-      construction: buildingJson.cost.construction || 0
-    } : undefined,
+    cost: buildingJson.cost ? { ...buildingJson.cost } : undefined,
     limit: buildingJson.limit,
+    upgradesTo: buildingJson.upgrades_to,
+    requires: buildingJson.requires ? {
+      buildings: buildingJson.requires.buildings || [],
+      day: buildingJson.requires.day || 1,
+      inventionSpent: buildingJson.requires.invention_spent || 0
+    } : undefined,
+    multiDay: buildingJson.multi_day || false,
     effects: buildingJson.effects ? [...buildingJson.effects] : []
   };
 } 
\ No newline at end of file
@@ -4,9 +4,11 @@ import { StickerRegistry } from '../services/StickerRegistry';
 import {
   CardSticker,
   StickerConfig,
-  StickerFactory
+  StickerEffect,
+  StickerFactory,
+  StickerTrigger
 } from './Sticker';
-import { Race } from './Types';
+import { Race, ResourceType } from './Types';
 
 export interface CardConfig {
     id: string;
@@ -15,6 +17,7 @@ export interface CardConfig {
     image: string;
     race: Race;
     startingStickers: string[];
+    startingStickersLocked: boolean; // Locked stickers can't be replaced, only peeled at the workshop
     maxSlotCount: number;
     cost?: {
         power?: number;
@@ -23,17 +26,54 @@ export interface CardConfig {
     };
 }
 
+/**
+ * Slot of a card that can hold a sticker
+ * A sticker in a slot that is not replaceable is locked: it can only be removed by peeling it
+ */
 export interface CardSlot {
   id: number;
   sticker: CardSticker | null;
   replaceable: boolean;
 }
 
+/**
+ * Temporary status of a card
+ * Injured cards provide half their resources (rounded down), exhausted cards can't be played
+ * and inspired cards provide 1 more of every resource
+ */
+export enum CardStatus {
+  Injured = 'injured',
+  Exhausted = 'exhausted',
+  Inspired = 'inspired'
+}
+
+/**
+ * Status of a card with the number of days it still lasts, the current day included
+ */
+export interface CardStatusEffect {
+  status: CardStatus;
+  daysLeft: number;
+}
+
+/**
+ * Serializable state of a card, used for saving and restoring a run
+ */
+export interface CardState {
+  id: string;
+  unique_id: string;
+  stickers: Array<string | null>;
+  replaceable?: boolean[];
+  statuses?: CardStatusEffect[];
+}
+
 /**
  * Events emitted by the Card entity
  */
 export enum CardEvents {
-  STICKER_APPLIED = 'sticker-applied'
+  STICKER_APPLIED = 'sticker-applied',
+  STICKER_PEELED = 'sticker-peeled',
+  SLOT_ADDED = 'slot-added',
+  STATUS_CHANGED = 'status-changed'
 }
 
 /**
@@ -46,6 +86,7 @@ export class Card extends Phaser.Events.EventEmitter {
   public readonly race: Race;
   public readonly image: string;
   private _slots: CardSlot[];
+  private _statuses: CardStatusEffect[] = [];
   public readonly cost?: {
     power?: number;
     construction?: number;
@@ -55,25 +96,27 @@ export class Card extends Phaser.Events.EventEmitter {
   /**
    * Create a new Card instance
    * @param config Card configuration data
+   * @param uniqueId Optional unique ID, used when restoring a saved card
    */
-  constructor(config: CardConfig) {
+  constructor(config: CardConfig, uniqueId?: string) {
     super();
     this.id = config.id;
-    this.unique_id = uuidv4();
+    this.unique_id = uniqueId || uuidv4();
     this.name = config.name;
     this.race = config.race;
     this.image = config.image;
-    this._slots = this.buildSlots(config.maxSlotCount, config.startingStickers);
+    this._slots = this.buildSlots(config.maxSlotCount, config.startingStickers, config.startingStickersLocked);
     this.cost = config.cost ? { ...config.cost } : undefined;
   }
 
-  private buildSlots(maxSlotCount: number, startingStickers: string[]): CardSlot[] {
+  private buildSlots(maxSlotCount: number, startingStickers: string[], startingStickersLocked: boolean): CardSlot[] {
     const slots: CardSlot[] = [];
     for (let i = 0; i < maxSlotCount; i++) {
+      const hasStartingSticker = i < startingStickers.length;
       slots.push({
         id: i,
-        sticker: i < startingStickers.length ? this.createStickerFromId(startingStickers[i]) : null,
-        replaceable: false
+        sticker: hasStartingSticker ? this.createStickerFromId(startingStickers[i]) : null,
+        replaceable: !(hasStartingSticker && startingStickersLocked)
       });
     }
     return slots;
@@ -107,6 +150,36 @@ export class Card extends Phaser.Events.EventEmitter {
     return this._slots.length;
   }
 
+  /**
+   * Check if another slot can be added to the card
+   * @param slotCap The maximum number of slots for the race of the card
+   */
+  public canAddSlot(slotCap: number): boolean {
+    return this._slots.length < slotCap;
+  }
+
+  /**
+   * Add an empty slot to the card
+   * @param slotCap The maximum number of slots for the race of the card
+   * @returns True if the slot was added, false if the card already has the maximum number of slots
+   */
+  public addSlot(slotCap: number): boolean {
+    if (!this.canAddSlot(slotCap)) {
+      return false;
+    }
+    
+    const slotIndex = this._slots.length;
+    this._slots.push({
+      id: slotIndex,
+      sticker: null,
+      replaceable: true
+    });
+    
+    this.emit(CardEvents.SLOT_ADDED, this, slotIndex);
+    
+    return true;
+  }
+
   /**
    * Calculate the total invention value of this card
    * This includes the base value plus any contributions from stickers
@@ -154,6 +227,119 @@ export class Card extends Phaser.Events.EventEmitter {
     return total;
   }
 
+  /**
+   * Calculate the total wild value of this card
+   * The wild value counts toward whichever resource the card is played for
+   */
+  public getWildValue(): number {
+    let total = 0;
+    this._slots.forEach(slot => {
+      if (slot.sticker) {
+        total += slot.sticker.getWildValue();
+      }
+    });
+    
+    return total;
+  }
+
+  /**
+   * Get the value of a resource type this card provides when played for that resource
+   * This includes the wild value of the card
+   * @param resourceType The resource type
+   */
+  public getResourceValue(resourceType: ResourceType): number {
+    let value: number;
+    switch (resourceType) {
+      case ResourceType.Power:
+        value = this.getPowerValue() + this.getWildValue();
+        break;
+      case ResourceType.Construction:
+        value = this.getConstructionValue() + this.getWildValue();
+        break;
+      case ResourceType.Invention:
+        value = this.getInventionValue() + this.getWildValue();
+        break;
+      default:
+        return 0;
+    }
+
+    if (this.hasStatus(CardStatus.Injured)) {
+      value = Math.floor(value / 2);
+    }
+    if (this.hasStatus(CardStatus.Inspired)) {
+      value += 1;
+    }
+    return value;
+  }
+
+  /**
+   * Get the statuses currently affecting this card
+   */
+  public get statuses(): CardStatusEffect[] {
+    return this._statuses.map(effect => ({ ...effect }));
+  }
+
+  /**
+   * Check if the card has a status
+   * @param status The status to check
+   */
+  public hasStatus(status: CardStatus): boolean {
+    return this._statuses.some(effect => effect.status === status);
+  }
+
+  /**
+   * Check if the card can be selected to be played or sent away
+   */
+  public canBePlayed(): boolean {
+    return !this.hasStatus(CardStatus.Exhausted);
+  }
+
+  /**
+   * Give the card a status, a status the card already has lasts for the longer of both durations
+   * @param status The status to give
+   * @param days Number of days the status lasts, the current day included
+   */
+  public addStatus(status: CardStatus, days: number): void {
+    if (days <= 0) return;
+
+    const existing = this._statuses.find(effect => effect.status === status);
+    if (existing) {
+      existing.daysLeft = Math.max(existing.daysLeft, days);
+    } else {
+      this._statuses.push({ status, daysLeft: days });
+    }
+
+    this.emit(CardEvents.STATUS_CHANGED, this);
+  }
+
+  /**
+   * Count down the statuses at the end of a day, removing the ones that are over
+   */
+  public tickStatuses(): void {
+    if (this._statuses.length === 0) return;
+
+    this._statuses.forEach(effect => effect.daysLeft--);
+    this._statuses = this._statuses.filter(effect => effect.daysLeft > 0);
+
+    this.emit(CardEvents.STATUS_CHANGED, this);
+  }
+
+  /**
+   * Get the effects of all stickers on this card that are applied on a trigger
+   * @param trigger The moment the effects are applied
+   */
+  public getStickerEffects(trigger: StickerTrigger): StickerEffect[] {
+    const effects: StickerEffect[] = [];
+    this._slots.forEach(slot => {
+      slot.sticker?.effects.forEach(effect => {
+        if (effect.trigger === trigger) {
+          effects.push(effect);
+        }
+      });
+    });
+    return effects;
+  }
+
   /**
    * Apply a sticker to a specific slot
    * @param sticker The sticker configuration to apply
@@ -161,16 +347,16 @@ export class Card extends Phaser.Events.EventEmitter {
    * @returns True if the sticker was applied successfully, false otherwise
    */
   public applySticker(sticker: StickerConfig, slotIndex: number): boolean {
-    // Check if the slot exists
-    if (slotIndex < 0 || slotIndex >= this._slots.length) {
+    if (!this.canUseSticker(sticker) || !this.canApplySticker(slotIndex)) {
       return false;
     }
     
     // Create the card sticker from the config
     const cardSticker = StickerFactory.fromConfig(sticker);
     
-    // Replace any existing sticker in the slot
+    // Replace any existing sticker in the slot, the old sticker is destroyed
     this._slots[slotIndex].sticker = cardSticker;
+    this._slots[slotIndex].replaceable = true;
     
     // Emit sticker applied event
     this.emit(CardEvents.STICKER_APPLIED, this, sticker, slotIndex);
@@ -178,9 +364,83 @@ export class Card extends Phaser.Events.EventEmitter {
     return true;
   }
 
+  /**
+   * Check if a sticker can be applied to cards of the race of this card
+   * @param sticker The sticker configuration
+   */
+  public canUseSticker(sticker: StickerConfig): boolean {
+    return sticker.races.length === 0 || sticker.races.includes(this.race);
+  }
+
+  /**
+   * Check if a sticker can be applied to a slot
+   * Empty slots and slots with a replaceable sticker accept a new sticker
+   * @param slotIndex The index of the slot
+   */
+  public canApplySticker(slotIndex: number): boolean {
+    const slot = this._slots[slotIndex];
+    if (!slot) {
+      return false;
+    }
+    
+    return slot.sticker === null || slot.replaceable;
+  }
+
+  /**
+   * Remove the sticker from a slot, destroying it
+   * Peeling also removes locked stickers, the slot is replaceable afterwards
+   * @param slotIndex The index of the slot to peel the sticker from
+   * @returns The peeled sticker or null if the slot was empty
+   */
+  public peelSticker(slotIndex: number): CardSticker | null {
+    const slot = this._slots[slotIndex];
+    if (!slot || !slot.sticker) {
+      return null;
+    }
+    
+    const peeledSticker = slot.sticker;
+    slot.sticker = null;
+    slot.replaceable = true;
+    
+    this.emit(CardEvents.STICKER_PEELED, this, peeledSticker, slotIndex);
+    
+    return peeledSticker;
+  }
+
+  /**
+   * Get the serializable state of this card
+   */
+  public getState(): CardState {
+    return {
+      id: this.id,
+      unique_id: this.unique_id,
+      stickers: this._slots.map(slot => slot.sticker ? slot.sticker.id : null),
+      replaceable: this._slots.map(slot => slot.replaceable),
+      statuses: this.statuses
+    };
+  }
+
   public static fromConfig(config: CardConfig): Card {
     return new Card(config);
   }
+
+  /**
+   * Create a card from a saved state, keeping its unique ID and applied stickers
+   * @param config Card configuration data
+   * @param state Saved state of the card
+   */
+  public static fromState(config: CardConfig, state: CardState): Card {
+    const card = new Card(config, state.unique_id);
+    card._slots = state.stickers.map((stickerId, index) => ({
+      id: index,
+      sticker: stickerId ? card.createStickerFromId(stickerId) : null,
+      // Saves without slot rules keep the starting stickers locked
+      replaceable: state.replaceable?.[index] ??
+        !(config.startingStickersLocked && stickerId !== null && config.startingStickers[index] === stickerId)
+    }));
+    card._statuses = (state.statuses || []).map(effect => ({ ...effect }));
+    return card;
+  }
 }
 
 /**
@@ -194,13 +454,26 @@ export function convertCardJsonToConfig(cardJson: any): CardConfig {
     image: cardJson.image,
     race: stringToRace(cardJson.race),
     startingStickers: [...cardJson.startingStickers],
+    startingStickersLocked: cardJson.startingStickersLocked ?? true,
     maxSlotCount: cardJson.maxSlotCount,
     cost: cardJson.cost ? { ...cardJson.cost } : undefined,
   };
 }
 
+/**
+ * Helper function to convert a status name to CardStatus enum
+ * @param status Status name as used in the JSON configs
+ */
+export function stringToCardStatus(status: string): CardStatus {
+  const cardStatus = Object.values(CardStatus).find(value => value === status.toLowerCase());
+  if (!cardStatus) {
+    throw new Error(`Unknown card status: ${status}`);
+  }
+  return cardStatus;
+}
+
 // Helper function to convert a string race to Race enum
-function stringToRace(race: string): Race {
+export function stringToRace(race: string): Race {
   switch (race.toLowerCase()) {
     case 'human':
       return Race.Human;
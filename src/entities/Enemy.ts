@@ -0,0 +1,62 @@
+/**
+ * Special ability of an enemy that changes how the village defense works against its wave
+ * type is one of 'ignore_defense' (the building gives no defense)
+ * or 'damage_multiplier' (the building's defense is divided by the multiplier)
+ */
+export interface EnemyTrait {
+  type: string;
+  buildingId: string;
+  multiplier?: number;
+}
+
+export interface EnemyConfig {
+  id: string;
+  name: string;
+  description: string;
+  image: string;
+  strength: number;
+  traits: EnemyTrait[];
+}
+
+/**
+ * Entry of the enemies an invasion wave is composed of
+ */
+export interface WaveEnemy {
+  enemyId: string;
+  count: number;
+}
+
+/**
+ * Function to convert enemy JSON data to EnemyConfig
+ * @param enemyJson Enemy entry from enemies.json
+ */
+export function convertEnemyJsonToConfig(enemyJson: any): EnemyConfig {
+  return {
+    id: enemyJson.id,
+    name: enemyJson.name || enemyJson.id,
+    description: enemyJson.description || '',
+    image: enemyJson.image,
+    strength: enemyJson.strength || 0,
+    traits: (enemyJson.traits || []).map((trait: any) => ({
+      type: trait.type,
+      buildingId: trait.building,
+      multiplier: trait.multiplier
+    }))
+  };
+}
+
+/**
+ * Get a human readable description of an enemy trait
+ * @param trait The enemy trait
+ * @param buildingName Display name of the building the trait targets
+ */
+export function describeEnemyTrait(trait: EnemyTrait, buildingName: string): string {
+  switch (trait.type) {
+    case 'ignore_defense':
+      return `Ignores ${buildingName}`;
+    case 'damage_multiplier':
+      return `${trait.multiplier === 2 ? 'Double' : `x${trait.multiplier}`} damage to ${buildingName}`;
+    default:
+      return trait.type;
+  }
+}
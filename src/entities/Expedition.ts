@@ -0,0 +1,41 @@
+import { GameEffect } from '../services/EffectDispatcher';
+
+/**
+ * Expedition the player can send cards from the hand on
+ * The cards are away for a number of days and leave the deck cycle meanwhile.
+ * On their return the expedition succeeds if the power of the sent cards reaches the required power,
+ * on a failure each card can be injured and stays away to recover.
+ */
+export interface ExpeditionConfig {
+  id: string;
+  name: string;
+  description: string;
+  days: number;
+  minCards: number;
+  maxCards: number;
+  requiredPower: number;
+  injuryChance: number; // Chance of each card to be injured when the expedition fails
+  injuryDays: number; // Extra days an injured card stays away
+  successEffects: GameEffect[];
+  failureEffects: GameEffect[];
+}
+
+/**
+ * Function to convert expedition JSON data to ExpeditionConfig
+ * @param expeditionJson Expedition entry from expeditions.json
+ */
+export function convertExpeditionJsonToConfig(expeditionJson: any): ExpeditionConfig {
+  return {
+    id: expeditionJson.id,
+    name: expeditionJson.name || expeditionJson.id,
+    description: expeditionJson.description || '',
+    days: expeditionJson.days || 1,
+    minCards: expeditionJson.min_cards || 1,
+    maxCards: expeditionJson.max_cards || expeditionJson.min_cards || 1,
+    requiredPower: expeditionJson.required_power || 0,
+    injuryChance: expeditionJson.injury_chance || 0,
+    injuryDays: expeditionJson.injury_days || 0,
+    successEffects: (expeditionJson.success_effects || []).map((effect: any) => ({ ...effect })),
+    failureEffects: (expeditionJson.failure_effects || []).map((effect: any) => ({ ...effect }))
+  };
+}
@@ -0,0 +1,103 @@
+import { WaveEnemy } from './Enemy';
+
+/**
+ * Entry of a level's starting deck
+ */
+export interface LevelStartingCard {
+  cardId: string;
+  count: number;
+}
+
+/**
+ * Goal that awards a star when completing a level
+ * type is one of 'victory', 'power_margin' or 'buildings_constructed'
+ */
+export interface LevelStarGoal {
+  type: string;
+  amount?: number;
+}
+
+/**
+ * Change of the speed of an invasion wave from a given day on
+ */
+export interface InvasionSpeedChange {
+  fromDay: number;
+  speedPerTurn: number;
+}
+
+/**
+ * A wave of the invasion marching on the village
+ * Waves are resolved in order, the next wave starts marching when the previous one is repelled
+ */
+export interface InvasionWaveConfig {
+  name: string;
+  distance: number;
+  strength: number; // Strength on top of the strength of the enemies
+  enemies: WaveEnemy[];
+  speedPerTurn: number;
+  speedChanges: InvasionSpeedChange[]; // Sorted by day
+}
+
+export interface LevelConfig {
+  id: string;
+  name: string;
+  description: string;
+  difficulty: string;
+  startingCards: LevelStartingCard[];
+  invasionWaves: InvasionWaveConfig[];
+  prerequisites: string[]; // IDs of levels that must be won to unlock this one
+  starGoals: LevelStarGoal[];
+}
+
+/**
+ * Function to convert level JSON data to LevelConfig
+ * Values missing from the level fall back to the global game config
+ * @param levelJson Level entry from levels.json
+ * @param gameJson Global game config from game.json
+ */
+export function convertLevelJsonToConfig(levelJson: any, gameJson: any = {}): LevelConfig {
+  const startingCards: Array<Record<string, number>> = levelJson.starting_cards || gameJson.starting_cards || [];
+
+  return {
+    id: levelJson.id,
+    name: levelJson.name || levelJson.id,
+    description: levelJson.description || '',
+    difficulty: levelJson.difficulty || 'Normal',
+    startingCards: startingCards.map(cardEntry => {
+      const cardId = Object.keys(cardEntry)[0];
+      return { cardId, count: cardEntry[cardId] };
+    }),
+    invasionWaves: convertInvasionWavesJsonToConfig(levelJson, gameJson),
+    prerequisites: levelJson.prerequisites ? [...levelJson.prerequisites] : [],
+    starGoals: (levelJson.star_goals || []).map((goal: any) => ({ ...goal })),
+  };
+}
+
+/**
+ * Function to convert the invasion waves of a level JSON to InvasionWaveConfigs
+ * Levels without invasion_waves get a single wave from the invasion_distance,
+ * invasion_speed_per_turn and invasion_difficulty values
+ * @param levelJson Level entry from levels.json
+ * @param gameJson Global game config from game.json
+ */
+export function convertInvasionWavesJsonToConfig(levelJson: any, gameJson: any = {}): InvasionWaveConfig[] {
+  const defaultSpeed = levelJson.invasion_speed_per_turn ?? gameJson.invasion_speed_per_turn ?? 10;
+  const wavesJson: any[] = levelJson.invasion_waves || [{
+    distance: levelJson.invasion_distance ?? gameJson.invasion_distance,
+    strength: levelJson.invasion_difficulty ?? gameJson.invasion_difficulty
+  }];
+
+  return wavesJson.map((waveJson, index) => ({
+    name: waveJson.name || `Wave ${index + 1}`,
+    distance: waveJson.distance ?? 100,
+    strength: waveJson.strength ?? 0,
+    enemies: (waveJson.enemies || []).map((enemyEntry: Record<string, number>) => {
+      const enemyId = Object.keys(enemyEntry)[0];
+      return { enemyId, count: enemyEntry[enemyId] };
+    }),
+    speedPerTurn: waveJson.speed_per_turn ?? defaultSpeed,
+    speedChanges: (waveJson.speed_changes || [])
+      .map((change: any) => ({ fromDay: change.from_day, speedPerTurn: change.speed_per_turn }))
+      .sort((a: InvasionSpeedChange, b: InvasionSpeedChange) => a.fromDay - b.fromDay)
+  }));
+}
@@ -1,5 +1,6 @@
 import Phaser from 'phaser';
 import { Card } from '../entities/Card';
+import { ResourceType } from '../entities/Types';
 import { DeckService } from '../services/DeckService';
 import { ResourceService } from '../services/ResourceService';
 
@@ -19,6 +20,8 @@ export class PlayerHand {
   public static Events = {
     CARDS_CHANGED: 'cards_changed',
     HAND_DISCARDED: 'hand_discarded',
+    CARDS_PLAYED: 'cards_played',
+    CARDS_DISCARDED: 'cards_discarded',
   };
   
   /**
@@ -55,6 +58,21 @@ export class PlayerHand {
     return drawnCards.length;
   }
   
+  /**
+   * Draw extra cards from the deck, ignoring the hand limit
+   * @param count Number of cards to draw
+   * @returns The number of cards drawn
+   */
+  public drawCards(count: number): number {
+    const drawnCards = this._deckService.drawFromDeck(count);
+    if (drawnCards.length > 0) {
+      this._cards.push(...drawnCards);
+      this._events.emit(PlayerHand.Events.CARDS_CHANGED, this._cards);
+    }
+    
+    return drawnCards.length;
+  }
+  
   /**
    * Discard the entire hand and draw new cards
    * @returns The number of cards drawn
@@ -71,19 +89,24 @@ export class PlayerHand {
    */
   public discardHand(): void {
     // Discard all cards in hand
-    this._cards.forEach(card => {
+    const discardedCards = this._cards;
+    discardedCards.forEach(card => {
       this._deckService.discard(card);
     });
     
-    const hadCards = this._cards.length > 0;
     this._cards = [];
     
-    if (hadCards) {
+    if (discardedCards.length > 0) {
       this._events.emit(PlayerHand.Events.CARDS_CHANGED, this._cards);
-      this._events.emit(PlayerHand.Events.HAND_DISCARDED);
     }
 
     this._resourceService.resetResourcesHandDiscard();
+
+    // Discard effects are applied after the reset so that their resources are kept
+    this._events.emit(PlayerHand.Events.HAND_DISCARDED);
+    if (discardedCards.length > 0) {
+      this._events.emit(PlayerHand.Events.CARDS_DISCARDED, discardedCards);
+    }
   }
   
   /**
@@ -101,6 +124,19 @@ export class PlayerHand {
    * @returns The discarded card or undefined if index is invalid
    */
   public discardCard(index: number): Card | undefined {
+    const discardedCard = this.moveToDiscardPile(index);
+    if (discardedCard) {
+      this._events.emit(PlayerHand.Events.CARDS_DISCARDED, [discardedCard]);
+    }
+    return discardedCard;
+  }
+  
+  /**
+   * Move a card from the hand to the discard pile without applying discard effects
+   * @param index Index of the card to move
+   * @returns The moved card or undefined if index is invalid
+   */
+  private moveToDiscardPile(index: number): Card | undefined {
     if (index < 0 || index >= this._cards.length) {
       return undefined;
     }
@@ -127,6 +163,30 @@ export class PlayerHand {
     return playedCard;
   }
   
+  /**
+   * Take cards out of the hand without discarding them, e.g. to send them on an expedition
+   * @param uniqueIds The unique_ids of the cards to take
+   * @returns The cards taken out of the hand
+   */
+  public removeCardsByUniqueIds(uniqueIds: string[]): Card[] {
+    const removedCards = this._cards.filter(card => uniqueIds.includes(card.unique_id));
+    if (removedCards.length > 0) {
+      this._cards = this._cards.filter(card => !removedCards.includes(card));
+      this._events.emit(PlayerHand.Events.CARDS_CHANGED, this._cards);
+    }
+    
+    return removedCards;
+  }
+  
+  /**
+   * Replace the cards in the hand, used when restoring a saved run
+   * @param cards Cards to put into the hand
+   */
+  public restoreCards(cards: Card[]): void {
+    this._cards = [...cards];
+    this._events.emit(PlayerHand.Events.CARDS_CHANGED, this._cards);
+  }
+  
   /**
    * Get all cards in the hand
    */
@@ -168,6 +228,25 @@ export class PlayerHand {
     return this.discardCard(index);
   }
 
+  /**
+   * Play cards from the hand by their unique_ids, moving them to the discard pile
+   * Emits CARDS_PLAYED so the effects of the played cards can be applied
+   * @param uniqueIds The unique_ids of the cards to play
+   * @param resourceType The resource the cards are played for
+   * @returns The played cards
+   */
+  public playCardsByUniqueIds(uniqueIds: string[], resourceType?: ResourceType): Card[] {
+    const playedCards = uniqueIds
+      .map(uniqueId => this.moveToDiscardPile(this._cards.findIndex(card => card.unique_id === uniqueId)))
+      .filter((card): card is Card => card !== undefined);
+    
+    if (playedCards.length > 0) {
+      this._events.emit(PlayerHand.Events.CARDS_PLAYED, playedCards, resourceType);
+    }
+    
+    return playedCards;
+  }
+
   /**
    * Add event listener for hand events
    * @param event Event name
@@ -188,18 +267,31 @@ export class PlayerHand {
     return this._events.off(event, fn, context);
   }
 
+  /**
+   * Get the cards of all card locations (hand, deck, discard)
+   * Cards away on expeditions are in none of these locations
+   */
+  public getAllCards(): Card[] {
+    return [...this._cards, ...this._deckService.getDeck(), ...this._deckService.getDiscardPile()];
+  }
+
+  /**
+   * Count down the statuses of all cards at the end of a day
+   * Cards away on expeditions are counted down by the ExpeditionService
+   */
+  public tickCardStatuses(): void {
+    this.getAllCards().forEach(card => card.tickStatuses());
+  }
+
   /**
    * Calculate total power across all card locations (hand, deck, discard)
+   * Cards away on expeditions are in none of these locations and don't count
    * @returns The total power value
    */
   public calculateTotalPower(): number {
-    const handCards = this._cards;
-    const deckCards = this._deckService.getDeck();
-    const discardCards = this._deckService.getDiscardPile();
-    
-    // Calculate power from all cards in all locations
-    const totalPower = [...handCards, ...deckCards, ...discardCards].reduce((sum, card) => {
-      return sum + card.getPowerValue();
+    // Calculate power from all cards in all locations, wild values fight as power
+    const totalPower = this.getAllCards().reduce((sum, card) => {
+      return sum + card.getResourceValue(ResourceType.Power);
     }, 0);
     
     return totalPower;
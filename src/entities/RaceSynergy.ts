@@ -0,0 +1,55 @@
+import { stringToRace } from './Card';
+import { Race, ResourceType } from './Types';
+
+/**
+ * Bonus for playing several cards of the same race together
+ * Without a resource type the bonus applies to whichever resource the cards are played for
+ */
+export interface RaceSynergyConfig {
+  id: string;
+  name: string;
+  race: Race;
+  minCards: number;
+  resourceType: ResourceType | null;
+  bonus: number;
+}
+
+/**
+ * Race bonus earned by a selection of cards, with the name of its source to explain it
+ */
+export interface RaceBonus {
+  source: string;
+  value: number;
+}
+
+/**
+ * Helper function to convert a lowercase resource name to ResourceType enum
+ * @param resource Resource name as used in the JSON configs
+ */
+export function stringToResourceType(resource: string): ResourceType {
+  switch (resource.toLowerCase()) {
+    case 'power':
+      return ResourceType.Power;
+    case 'construction':
+      return ResourceType.Construction;
+    case 'invention':
+      return ResourceType.Invention;
+    default:
+      throw new Error(`Unknown resource type: ${resource}`);
+  }
+}
+
+/**
+ * Function to convert race synergy JSON data to RaceSynergyConfig
+ * @param synergyJson Synergy entry from race_synergies.json
+ */
+export function convertRaceSynergyJsonToConfig(synergyJson: any): RaceSynergyConfig {
+  return {
+    id: synergyJson.id,
+    name: synergyJson.name || synergyJson.id,
+    race: stringToRace(synergyJson.race),
+    minCards: synergyJson.min_cards || 2,
+    resourceType: synergyJson.resource ? stringToResourceType(synergyJson.resource) : null,
+    bonus: synergyJson.bonus || 0
+  };
+}
@@ -1,15 +1,57 @@
-import { ResourceType } from './Types';
+import { EffectDispatcher, GameEffect } from '../services/EffectDispatcher';
+import { InvasionService } from '../services/InvasionService';
+import { ResourceService } from '../services/ResourceService';
+import { Card } from './Card';
+import { PlayerHand } from './PlayerHand';
+import { Race, ResourceType } from './Types';
 export { StickerRegistry } from '../services/StickerRegistry';
 
 export enum StickerType {
     Power,
     Construction,
     Invention,
-    Wild
+    Wild,
+    Utility
 }
 
 export enum StickerEffectType {
-    Resource
+    Resource,
+    Game,
+    DrawCard,
+    RaceBonus,
+    Multiply,
+    Wild
+}
+
+/**
+ * Rarity tier of a sticker, deciding how often it is offered in the sticker shop
+ */
+export enum StickerRarity {
+    Common = 'common',
+    Uncommon = 'uncommon',
+    Rare = 'rare'
+}
+
+/**
+ * Moment when the effect of a sticker is applied
+ */
+export enum StickerTrigger {
+    OnPlay = 'on_play',
+    OnDiscard = 'on_discard'
+}
+
+/**
+ * Everything a sticker effect can act upon when it is applied
+ */
+export interface StickerEffectContext {
+  card: Card; // The card the sticker is on
+  cards: Card[]; // All cards played or discarded together, including the card itself
+  trigger: StickerTrigger;
+  resourceType?: ResourceType; // The resource the cards were played for
+  playerHand: PlayerHand;
+  resourceService: ResourceService;
+  invasionService: InvasionService;
+  effectDispatcher: EffectDispatcher;
 }
 
 export interface StickerConfig {
@@ -20,11 +62,14 @@ export interface StickerConfig {
   type: StickerType;
   effects: StickerEffect[];
   cost: number;
+  rarity: StickerRarity;
+  races: Race[]; // Races of the cards the sticker can be applied to, empty for all races
 }
 
 export interface StickerEffect {
   type: StickerEffectType;
-  effect(): void;
+  trigger: StickerTrigger;
+  effect(context: StickerEffectContext): void;
 }
 
 export interface ResourceStickerEffect extends StickerEffect {
@@ -33,6 +78,54 @@ export interface ResourceStickerEffect extends StickerEffect {
   value: number;
 }
 
+/**
+ * Sticker effect that is routed through the EffectDispatcher
+ */
+export interface GameStickerEffect extends StickerEffect {
+  type: StickerEffectType.Game;
+  gameEffect: GameEffect;
+}
+
+/**
+ * Sticker effect that provides a value of whichever resource the card is played for
+ */
+export interface WildStickerEffect extends StickerEffect {
+  type: StickerEffectType.Wild;
+  value: number;
+}
+
+/**
+ * Sticker effect that draws extra cards into the hand
+ */
+export interface DrawCardStickerEffect extends StickerEffect {
+  type: StickerEffectType.DrawCard;
+  count: number;
+}
+
+/**
+ * Sticker effect that adds a resource when the card is played together with a card of another race
+ */
+export interface RaceBonusStickerEffect extends StickerEffect {
+  type: StickerEffectType.RaceBonus;
+  race: Race;
+  resourceType: ResourceType;
+  value: number;
+}
+
+/**
+ * Sticker effect that multiplies the resource the card provides when it is played for that resource
+ */
+export interface MultiplyStickerEffect extends StickerEffect {
+  type: StickerEffectType.Multiply;
+  resourceType: ResourceType;
+  multiplier: number;
+}
+
+/**
+ * Function that creates a sticker effect from its JSON config
+ */
+export type StickerEffectParser = (effectJson: any) => StickerEffect;
+
 export interface CardSticker {
   id: string;
   name: string;
@@ -44,10 +137,12 @@ export interface CardSticker {
   getInventionValue(): number;
   getPowerValue(): number;
   getConstructionValue(): number;
+  getWildValue(): number;
 }
 
 /**
  * Helper class to create CardSticker instances from config
+ * The resource values only count resources the sticker provides when the card is played
  */
 export class StickerFactory {
   public static fromConfig(stickerConfig: StickerConfig): CardSticker {
@@ -62,7 +157,7 @@ export class StickerFactory {
       
       getInventionValue(): number {
         for (const effect of stickerConfig.effects) {
-          if (effect.type === StickerEffectType.Resource) {
+          if (effect.type === StickerEffectType.Resource && effect.trigger === StickerTrigger.OnPlay) {
             const resourceEffect = effect as ResourceStickerEffect;
             if (resourceEffect.resourceType === ResourceType.Invention) {
               return resourceEffect.value;
@@ -75,7 +170,7 @@ export class StickerFactory {
 
       getPowerValue(): number {
         for (const effect of stickerConfig.effects) {
-          if (effect.type === StickerEffectType.Resource) {
+          if (effect.type === StickerEffectType.Resource && effect.trigger === StickerTrigger.OnPlay) {
             const resourceEffect = effect as ResourceStickerEffect;
             if (resourceEffect.resourceType === ResourceType.Power) {
               return resourceEffect.value;
@@ -88,7 +183,7 @@ export class StickerFactory {
 
       getConstructionValue(): number {
         for (const effect of stickerConfig.effects) {
-          if (effect.type === StickerEffectType.Resource) {
+          if (effect.type === StickerEffectType.Resource && effect.trigger === StickerTrigger.OnPlay) {
             const resourceEffect = effect as ResourceStickerEffect;
             if (resourceEffect.resourceType === ResourceType.Construction) {  
               return resourceEffect.value;
@@ -96,6 +191,16 @@ export class StickerFactory {
           }
         }
         
+        return 0;
+      },
+
+      getWildValue(): number {
+        for (const effect of stickerConfig.effects) {
+          if (effect.type === StickerEffectType.Wild && effect.trigger === StickerTrigger.OnPlay) {
+            return (effect as WildStickerEffect).value;
+          }
+        }
+        
         return 0;
       }
     };
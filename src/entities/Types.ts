@@ -8,6 +8,15 @@ export enum ResourceType {
     Invention
 }
 
+/**
+ * Amount of every resource needed to pay for something, missing resources cost nothing
+ */
+export interface ResourceCost {
+    power?: number;
+    construction?: number;
+    invention?: number;
+}
+
 export enum Race {
     Elf,
     Dwarf,
@@ -3,6 +3,7 @@ import { Plugin as NineSlicePlugin } from 'phaser3-nineslice';
 import { BootScene } from './scenes/BootScene';
 import { GameScene } from './scenes/GameScene';
 import { LevelSelectScene } from './scenes/LevelSelectScene';
+import { ResultsScene } from './scenes/ResultsScene';
 
 // Game configuration
 const config: Phaser.Types.Core.GameConfig = {
@@ -19,7 +20,7 @@ const config: Phaser.Types.Core.GameConfig = {
       { key: 'NineSlicePlugin', plugin: NineSlicePlugin, start: true }
     ]
   },
-  scene: [BootScene, LevelSelectScene, GameScene]
+  scene: [BootScene, LevelSelectScene, GameScene, ResultsScene]
 };
 
 // Initialize the game
@@ -1,5 +1,11 @@
 import Phaser from 'phaser';
+import { AdventureRegistry } from '../services/AdventureRegistry';
 import { BuildingRegistry } from '../services/BuildingRegistry';
+import { CardRegistry } from '../services/CardRegistry';
+import { EnemyRegistry } from '../services/EnemyRegistry';
+import { ExpeditionRegistry } from '../services/ExpeditionRegistry';
+import { LevelRegistry } from '../services/LevelRegistry';
+import { RaceSynergyRegistry } from '../services/RaceSynergyRegistry';
 import { StickerRegistry } from '../services/StickerRegistry';
 
 export class BootScene extends Phaser.Scene {
@@ -55,6 +61,10 @@ export class BootScene extends Phaser.Scene {
     this.load.image('round_metal_cross', 'assets/images/ui-pack-adventure/PNG/Default/checkbox_grey_cross.png');
     this.load.image('round_wood_cross', 'assets/images/ui-pack-adventure/PNG/Default/checkbox_brown_cross.png');
     this.load.image('button_wood', 'assets/images/ui-pack-adventure/PNG/Default/button_brown.png');
+    this.load.image('star_filled', 'assets/images/ui-pack-adventure/PNG/Default/minimap_icon_star_yellow.png');
+    this.load.image('invasion_enemy_marker', 'assets/images/ui-pack-adventure/PNG/Default/minimap_icon_exclamation_red.png');
+    this.load.image('invasion_village_marker', 'assets/images/ui-pack-adventure/PNG/Default/minimap_icon_jewel_yellow.png');
+    this.load.image('star_empty', 'assets/images/ui-pack-adventure/PNG/Default/minimap_icon_star_white.png');
     
     // Load resource images
     this.load.image('resource_construction', 'assets/images/fantasyIconPack/64/HammerT1.png');
@@ -92,6 +102,21 @@ export class BootScene extends Phaser.Scene {
     this.load.image('sticker_invention_1', 'assets/images/stickers/TomeYellow1.png');
     this.load.image('sticker_invention_2', 'assets/images/stickers/TomeYellow2.png');
     this.load.image('sticker_invention_3', 'assets/images/stickers/TomeYellow3.png');
+    this.load.image('sticker_scouting', 'assets/images/fantasyIconPack/64/Map.png');
+    this.load.image('sticker_quick_study', 'assets/images/fantasyIconPack/64/Scroll.png');
+    this.load.image('sticker_elven_bond', 'assets/images/fantasyIconPack/64/GemGreen.png');
+    this.load.image('sticker_master_plans', 'assets/images/fantasyIconPack/64/TomeBlue.png');
+    this.load.image('sticker_salvage', 'assets/images/fantasyIconPack/64/Backpack.png');
+    this.load.image('sticker_wild_1', 'assets/images/fantasyIconPack/64/GemYellow.png');
+    this.load.image('sticker_wild_2', 'assets/images/fantasyIconPack/64/GemYellow.png');
+    this.load.image('sticker_dwarven_hammer', 'assets/images/fantasyIconPack/64/HammerT1.png');
+    this.load.image('sticker_elven_bow', 'assets/images/fantasyIconPack/64/BowT2.png');
+
+    // Load enemy images
+    this.load.image('enemy_goblin', 'assets/images/fantasyIconPack/64/DaggerT1.png');
+    this.load.image('enemy_goblin_archer', 'assets/images/fantasyIconPack/64/BowT1.png');
+    this.load.image('enemy_orc_brute', 'assets/images/fantasyIconPack/64/AxeDoubleT1.png');
+    this.load.image('enemy_battering_ram', 'assets/images/fantasyIconPack/64/HammerT2.png');
 
     // Load configuration files
     this.load.json('stickers', 'config/stickers.json');
@@ -99,31 +124,25 @@ export class BootScene extends Phaser.Scene {
     this.load.json('gameConfig', 'config/game.json');
     this.load.json('buildingsConfig', 'config/buildings.json');
     this.load.json('levelsConfig', 'config/levels.json');
+    this.load.json('enemiesConfig', 'config/enemies.json');
+    this.load.json('raceSynergiesConfig', 'config/race_synergies.json');
+    this.load.json('adventuresConfig', 'config/adventures.json');
+    this.load.json('expeditionsConfig', 'config/expeditions.json');
   }
 
   create(): void {
     // Initialize registries with loaded data
     this.initializeStickerRegistry();
     this.initializeBuildingRegistry();
+    this.initializeCardRegistry();
+    this.initializeEnemyRegistry();
+    this.initializeRaceSynergyRegistry();
+    this.initializeAdventureRegistry();
+    this.initializeExpeditionRegistry();
+    this.initializeLevelRegistry();
     
-    // Get level ID from levels config
-    const currentLevelId = this.getCurrentLevelId();
-    
-    // Transition to the game scene with level ID
-    this.scene.start('GameScene', { levelId: currentLevelId });
-  }
-  
-  /**
-   * Get the current level ID to load
-   * Currently selects the first level from the config
-   */
-  private getCurrentLevelId(): string {
-    const levelsData = this.cache.json.get('levelsConfig');
-    if (levelsData && levelsData.levels && levelsData.levels.length > 0) {
-      return levelsData.levels[0].id; // Return the first level ID
-    }
-    // Fallback to default level ID if levels config is not valid
-    return 'level_1';
+    // Transition to the level select scene
+    this.scene.start('LevelSelectScene');
   }
   
   /**
@@ -151,4 +170,82 @@ export class BootScene extends Phaser.Scene {
       console.error('Failed to load buildings.json');
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Load card configs into the global registry
+   */
+  private initializeCardRegistry(): void {
+    const cardData = this.cache.json.get('cardsConfig');
+    if (cardData) {
+      const registry = CardRegistry.getInstance();
+      registry.loadCards(cardData);
+    } else {
+      console.error('Failed to load cards.json');
+    }
+  }
+
+  /**
+   * Load enemy configs into the global registry
+   */
+  private initializeEnemyRegistry(): void {
+    const enemyData = this.cache.json.get('enemiesConfig');
+    if (enemyData) {
+      const registry = EnemyRegistry.getInstance();
+      registry.loadEnemies(enemyData);
+    } else {
+      console.error('Failed to load enemies.json');
+    }
+  }
+
+  /**
+   * Load race synergy configs into the global registry
+   */
+  private initializeRaceSynergyRegistry(): void {
+    const synergyData = this.cache.json.get('raceSynergiesConfig');
+    if (synergyData) {
+      const registry = RaceSynergyRegistry.getInstance();
+      registry.loadSynergies(synergyData);
+    } else {
+      console.error('Failed to load race_synergies.json');
+    }
+  }
+
+  /**
+   * Load adventure configs into the global registry
+   */
+  private initializeAdventureRegistry(): void {
+    const adventureData = this.cache.json.get('adventuresConfig');
+    if (adventureData) {
+      const registry = AdventureRegistry.getInstance();
+      registry.loadAdventures(adventureData);
+    } else {
+      console.error('Failed to load adventures.json');
+    }
+  }
+
+  /**
+   * Load expedition configs into the global registry
+   */
+  private initializeExpeditionRegistry(): void {
+    const expeditionData = this.cache.json.get('expeditionsConfig');
+    if (expeditionData) {
+      const registry = ExpeditionRegistry.getInstance();
+      registry.loadExpeditions(expeditionData);
+    } else {
+      console.error('Failed to load expeditions.json');
+    }
+  }
+
+  /**
+   * Load level configs into the global registry
+   */
+  private initializeLevelRegistry(): void {
+    const levelData = this.cache.json.get('levelsConfig');
+    if (levelData) {
+      const registry = LevelRegistry.getInstance();
+      registry.loadLevels(levelData, this.cache.json.get('gameConfig'));
+    } else {
+      console.error('Failed to load levels.json');
+    }
+  }
+}
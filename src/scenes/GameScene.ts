@@ -1,34 +1,61 @@
 import Phaser from 'phaser';
 import { BuildingSlot, BuildingSlotLocation } from '../entities/Building';
-import { Card } from '../entities/Card';
+import { Card, CardStatus, stringToCardStatus, stringToRace } from '../entities/Card';
 import { PlayerHand } from '../entities/PlayerHand';
+import { stringToResourceType } from '../entities/RaceSynergy';
+import { Race } from '../entities/Types';
 import { trackEvent } from '../game';
+import {
+  BattleAftermathJson,
+  BattleResult,
+  BattleService,
+  BattleServiceEvents,
+  convertBattleAftermathJsonToConfig
+} from '../services/BattleService';
 import { BuildingRegistry } from '../services/BuildingRegistry';
 import { BuildingService } from '../services/BuildingService';
+import { BuildingTriggerService } from '../services/BuildingTriggerService';
+import { CampaignService } from '../services/CampaignService';
 import { CardRegistry } from '../services/CardRegistry';
 import { DeckService } from '../services/DeckService';
+import { EffectDispatcher } from '../services/EffectDispatcher';
+import { ExpeditionService } from '../services/ExpeditionService';
+import { GameStateService } from '../services/GameStateService';
 import { InvasionService } from '../services/InvasionService';
+import { LevelRegistry } from '../services/LevelRegistry';
 import { RecruitService } from '../services/RecruitService';
 import { ResourceService } from '../services/ResourceService';
+import { StickerEffectService } from '../services/StickerEffectService';
+import {
+  StickerInventoryJson,
+  StickerInventoryService,
+  convertStickerInventoryJsonToConfig
+} from '../services/StickerInventoryService';
+import { StickerRegistry } from '../services/StickerRegistry';
 import { StickerShopService } from '../services/StickerShopService';
-import { TavernService } from '../services/TavernService';
+import { AdventureOddsJson, TavernService, convertAdventureOddsJsonToConfig } from '../services/TavernService';
 import { GameUI } from '../ui/GameUI';
 import { PlayerHandRenderer } from '../ui/PlayerHandRenderer';
 
 interface GameConfig {
   // Global game settings
   player_hand_size: number;
-  invasion_speed_per_turn: number;
   
   id?: string;
   name?: string;
   description?: string;
   starting_cards: Array<Record<string, number>>;
-  invasion_distance: number;
-  invasion_difficulty: number;
   building_slot_locations: Array<BuildingSlotLocation>;
   building_slots: Array<BuildingSlot>;
   deck_limit: number;
+  sticker_peel_cost: number;
+  card_slot_upgrade_cost: number;
+  card_slot_caps: Record<string, number>;
+  sticker_shop_inventory?: StickerInventoryJson;
+  adventure_odds?: AdventureOddsJson;
+  battle_aftermath?: BattleAftermathJson;
+  upgrade_building_id?: string;
+  demolish_refund_ratio?: number;
 }
 
 export class GameScene extends Phaser.Scene {
@@ -42,21 +69,30 @@ export class GameScene extends Phaser.Scene {
   private cardRegistry!: CardRegistry;
   private buildingRegistry!: BuildingRegistry;
   private buildingService!: BuildingService;
+  private buildingTriggerService!: BuildingTriggerService;
   private tavernService!: TavernService;
+  private expeditionService!: ExpeditionService;
   private stickerShopService!: StickerShopService;
+  private stickerInventoryService!: StickerInventoryService;
   private recruitService!: RecruitService;
+  private battleService!: BattleService;
+  private gameStateService!: GameStateService;
+  private effectDispatcher!: EffectDispatcher;
+  private stickerEffectService!: StickerEffectService;
   private levelId: string = 'level_1'; // Default level ID
+  private resume: boolean = false;
 
   constructor() {
     super({ key: 'GameScene' });
   }
 
-  init(data: { levelId: string }): void {
+  init(data: { levelId: string, resume?: boolean }): void {
     if( !data || !data.levelId ) {
       throw new Error('Level ID is required');
     }
 
     this.levelId = data.levelId;
+    this.resume = data.resume || false;
   }
 
   preload(): void {
@@ -72,13 +108,30 @@ export class GameScene extends Phaser.Scene {
     this.loadConfigurations();
     
     this.invasionService = this.createInvasionService();
+    this.effectDispatcher = this.createEffectDispatcher();
     this.resourceService = this.createResourceService();
     this.buildingService = this.createBuildingsService();
     this.resourceService.setBuildingService(this.buildingService);
+    this.buildingService.setEffectDispatcher(this.effectDispatcher);
     this.playerDeck = this.createPlayerDeck();
+    this.buildingService.setDeckService(this.playerDeck);
+    this.buildingTriggerService = new BuildingTriggerService(this.buildingService, this.playerHand);
     this.tavernService = this.createTavernService();
-    this.stickerShopService = new StickerShopService();
+    this.expeditionService = new ExpeditionService(
+      this.playerHand,
+      this.playerDeck,
+      this.invasionService,
+      this.effectDispatcher
+    );
+    this.stickerShopService = this.createStickerShopService();
+    this.stickerInventoryService = new StickerInventoryService(
+      convertStickerInventoryJsonToConfig(this.gameConfig.sticker_shop_inventory),
+      this.buildingService,
+      this.invasionService
+    );
     this.recruitService = this.createRecruitService();
+    this.battleService = this.createBattleService();
+    this.gameStateService = this.createGameStateService();
 
     // Initialize the player hand UI
     this.playerHandRenderer = this.createPlayerHandUI();
@@ -89,10 +142,12 @@ export class GameScene extends Phaser.Scene {
       this.buildingService, 
       this.resourceService, 
       this.stickerShopService,
+      this.stickerInventoryService,
       this.playerHandRenderer,
       this.playerDeck,
       this.invasionService,
       this.tavernService,
+      this.expeditionService,
       this.recruitService
     );
     
@@ -151,19 +206,100 @@ export class GameScene extends Phaser.Scene {
     this.game.registry.set('gameConfig', this.gameConfig);
   }
 
+  /**
+   * Initialize the sticker shop service with the card upgrade settings
+   */
+  private createStickerShopService(): StickerShopService {
+    const slotCaps: Partial<Record<Race, number>> = {};
+    Object.entries(this.gameConfig.card_slot_caps || {}).forEach(([race, cap]) => {
+      slotCaps[stringToRace(race)] = cap;
+    });
+
+    return new StickerShopService(
+      false,
+      this.gameConfig.sticker_peel_cost,
+      this.gameConfig.card_slot_upgrade_cost,
+      slotCaps
+    );
+  }
+
   /**
    * Initialize the invasion service
    */
   private createInvasionService(): InvasionService {
-    const invasionService = new InvasionService(
-      this.gameConfig.invasion_distance,
-      this.gameConfig.invasion_speed_per_turn,
-      this.gameConfig.invasion_difficulty
-    );
+    const level = LevelRegistry.getInstance().getLevelConfig(this.levelId);
+    if (!level) {
+      throw new Error(`Level config not found for level ID: ${this.levelId}`);
+    }
+
+    const invasionService = new InvasionService(level.invasionWaves);
 
     return invasionService;
   }
   
+  /**
+   * Initialize the effect dispatcher with handlers for all data-driven effects
+   */
+  private createEffectDispatcher(): EffectDispatcher {
+    const effectDispatcher = new EffectDispatcher();
+
+    effectDispatcher.registerHandler('delay_invasion', (effect) => {
+      this.invasionService.delayInvasionByDays(effect.days || 0);
+    });
+
+    effectDispatcher.registerHandler('add_resource', (effect) => {
+      this.resourceService.addResource(stringToResourceType(effect.resource), effect.amount || 0);
+    });
+
+    effectDispatcher.registerHandler('apply_sticker', (effect) => {
+      this.applyStickerToRandomCard(effect.sticker);
+    });
+
+    effectDispatcher.registerHandler('add_card_status', (effect, context) => {
+      this.addStatusToRandomCards(stringToCardStatus(effect.status), effect.days || 1, effect.count || 1, context.cards);
+    });
+
+    return effectDispatcher;
+  }
+
+  /**
+   * Give a status to random cards that took part in what caused the effect, e.g. the party of an adventure
+   * Effects without such cards pick from all cards in the hand, deck and discard pile
+   * @param status The status to give
+   * @param days Number of days the status lasts
+   * @param count Number of cards to give the status to
+   * @param cards The cards that took part
+   */
+  private addStatusToRandomCards(status: CardStatus, days: number, count: number, cards?: Card[]): void {
+    const candidates = cards && cards.length > 0 ? [...cards] : this.playerHand.getAllCards();
+
+    Phaser.Utils.Array.Shuffle(candidates)
+      .slice(0, count)
+      .forEach(card => card.addStatus(status, days));
+  }
+
+  /**
+   * Apply a sticker to the empty slot of a random card in the deck or discard pile
+   * Only cards of a race that can use the sticker are considered
+   * @param stickerId The sticker ID
+   */
+  private applyStickerToRandomCard(stickerId: string): void {
+    const sticker = StickerRegistry.getInstance().getStickerConfig(stickerId);
+    if (!sticker) {
+      throw new Error(`Sticker not found in registry: ${stickerId}`);
+    }
+
+    const candidates = [...this.playerDeck.getDeck(), ...this.playerDeck.getDiscardPile()]
+      .filter(card => card.canUseSticker(sticker) && card.slots.some(slot => slot.sticker === null));
+    if (candidates.length === 0) {
+      console.warn(`No card with a free slot for sticker: ${stickerId}`);
+      return;
+    }
+
+    const card = candidates[Math.floor(Math.random() * candidates.length)];
+    card.applySticker(sticker, card.slots.findIndex(slot => slot.sticker === null));
+  }
+  
   /**
    * Initialize the resource service
    */
@@ -208,6 +344,14 @@ export class GameScene extends Phaser.Scene {
       }
     });
 
+    // Apply the effects of stickers when cards are played or discarded
+    this.stickerEffectService = new StickerEffectService(
+      this.playerHand,
+      this.resourceService,
+      this.invasionService,
+      this.effectDispatcher
+    );
+
     // Shuffle the deck
     playerDeck.shuffle();
     
@@ -244,7 +388,8 @@ export class GameScene extends Phaser.Scene {
       this.stickerShopService,
       this.buildingService,
       this.tavernService,
-      this.recruitService
+      this.recruitService,
+      this.battleService
     );
     
     // Initialize and render the hand
@@ -260,7 +405,10 @@ export class GameScene extends Phaser.Scene {
     const tavernService = new TavernService(
       this.cardRegistry, 
       this.resourceService, 
-      this.playerDeck
+      this.playerDeck,
+      this.playerHand,
+      this.effectDispatcher,
+      convertAdventureOddsJsonToConfig(this.gameConfig.adventure_odds)
     );
 
     return tavernService;
@@ -271,13 +419,16 @@ export class GameScene extends Phaser.Scene {
    */
   private createBuildingsService(): BuildingService {
     // Use the required building slots and locations from config
-    const { building_slots, building_slot_locations } = this.gameConfig;
+    const { building_slots, building_slot_locations, upgrade_building_id, demolish_refund_ratio } = this.gameConfig;
     
     // Create BuildingService with slots and locations
     const buildingService = new BuildingService(
       building_slots, 
       building_slot_locations,
-      this.resourceService
+      this.resourceService,
+      this.invasionService,
+      upgrade_building_id,
+      demolish_refund_ratio
     );
 
     return buildingService;
@@ -297,6 +448,71 @@ export class GameScene extends Phaser.Scene {
     return recruitService;
   }
   
+  /**
+   * Initialize the battle service
+   */
+  private createBattleService(): BattleService {
+    const battleService = new BattleService(
+      this.playerHand,
+      this.invasionService,
+      this.buildingService,
+      convertBattleAftermathJsonToConfig(this.gameConfig.battle_aftermath)
+    );
+
+    battleService.on(BattleServiceEvents.BATTLE_RESOLVED, this.onBattleResolved, this);
+
+    return battleService;
+  }
+
+  /**
+   * Initialize the game state service, restore a saved run if requested and enable autosave
+   */
+  private createGameStateService(): GameStateService {
+    const gameStateService = new GameStateService(
+      this.levelId,
+      this.playerHand,
+      this.playerDeck,
+      this.buildingService,
+      this.resourceService,
+      this.invasionService,
+      this.stickerInventoryService,
+      this.expeditionService,
+      this.cardRegistry
+    );
+
+    if (this.resume) {
+      const savedState = GameStateService.loadSavedGame();
+      if (savedState) {
+        gameStateService.restore(savedState);
+      }
+    }
+
+    gameStateService.enableAutosave();
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => gameStateService.disableAutosave());
+
+    return gameStateService;
+  }
+
+  /**
+   * Handler for when the battle against the invasion is resolved
+   * @param result The result of the battle
+   */
+  private onBattleResolved(result: BattleResult): void {
+    // The run is over, so there is nothing left to continue
+    this.gameStateService.disableAutosave();
+    GameStateService.clearSavedGame();
+
+    // Record the result in the campaign to unlock levels and award stars
+    const levelRegistry = LevelRegistry.getInstance();
+    const level = levelRegistry.getLevelConfig(this.levelId);
+    if (!level) {
+      throw new Error(`Level config not found for level ID: ${this.levelId}`);
+    }
+    const campaignResult = CampaignService.getInstance().recordResult(level, result, levelRegistry.getAllLevelConfigs());
+
+    this.scene.start('ResultsScene', { levelId: this.levelId, result, campaignResult });
+  }
+  
   /**
    * Update game state
    */
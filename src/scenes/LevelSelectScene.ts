@@ -1,57 +1,171 @@
 import Phaser from 'phaser';
+import { LevelConfig } from '../entities/Level';
 import { trackEvent } from '../game';
+import { CampaignService } from '../services/CampaignService';
+import { GameStateService } from '../services/GameStateService';
+import { LevelRegistry } from '../services/LevelRegistry';
+import { LEVEL_CARD_WIDTH, LevelCardRenderer } from '../ui/LevelCardRenderer';
+import { MenuButtonRenderer } from '../ui/MenuButtonRenderer';
 
 export class LevelSelectScene extends Phaser.Scene {
+  private levelCards: LevelCardRenderer[] = [];
+  private selectedLevel: LevelConfig | null = null;
+  private levelCardSpacing: number = 30;
+  private pageArrowMargin: number = 100;
+  private levelsPerPage: number = 1;
+  private levelPage: number = 0;
+  private previousPageArrow: Phaser.GameObjects.Text | null = null;
+  private nextPageArrow: Phaser.GameObjects.Text | null = null;
+
   constructor() {
     super({ key: 'LevelSelectScene' });
   }
 
   create(): void {
     const { width, height } = this.cameras.main;
-    
+
     // Add game logo
-    const logo = this.add.image(width / 2, height / 3 + 80, 'logo');
-    logo.setScale(0.5);
-    
-    const playButton = this.add['nineslice'](
-      width / 2, 
-      height / 2 + 280, 
-      'panel_wood_corners_metal', // texture key
-      undefined, // frame
-      200, // width
-      50, // height
-      20, // leftWidth
-      20, // rightWidth
-      20, // topHeight
-      20  // bottomHeight
-    );
-    
-    const playText = this.add.text(width / 2, height / 2 + 280, 'Play', { 
-      fontSize: '24px', 
-      color: '#ffffff' 
+    const logo = this.add.image(width / 2, 110, 'logo');
+    logo.setScale(0.2);
+
+    this.createLevelCards();
+
+    const savedGame = GameStateService.loadSavedGame();
+    const buttonsY = height / 2 + 280;
+    const playButtonX = savedGame ? width / 2 - 120 : width / 2;
+
+    new MenuButtonRenderer(this, playButtonX, buttonsY, 'Play', () => {
+      if (!this.selectedLevel) return;
+
+      // Track analytics event
+      trackEvent('game_start', {
+        event_category: 'game_flow',
+        event_label: 'new_game',
+        level_id: this.selectedLevel.id
+      });
+
+      // Starting a new run replaces any saved one
+      GameStateService.clearSavedGame();
+
+      // Transition to the game scene
+      this.scene.start('GameScene', { levelId: this.selectedLevel.id });
     });
-    playText.setOrigin(0.5);
-    
-    // Make button interactive
-    playButton.setInteractive({ useHandCursor: true })
-      .on('pointerdown', () => {
+
+    if (savedGame) {
+      new MenuButtonRenderer(this, width / 2 + 120, buttonsY, 'Continue', () => {
         // Track analytics event
-        trackEvent('game_start', { 
+        trackEvent('game_start', {
           event_category: 'game_flow',
-          event_label: 'new_game'
+          event_label: 'continue_game',
+          level_id: savedGame.levelId
         });
-        
-        // Transition to the game scene
-        this.scene.start('GameScene');
+
+        // Transition to the game scene, restoring the saved run
+        this.scene.start('GameScene', { levelId: savedGame.levelId, resume: true });
       });
-      
-    // Button hover effects
-    playButton.on('pointerover', () => {
-      playButton.setScale(1.05);
+    }
+  }
+
+  /**
+   * Create a card for every level in the levels config and select the first unlocked one
+   * The cards are paged by as many as fit in a row between the page arrows
+   */
+  private createLevelCards(): void {
+    const { width, height } = this.cameras.main;
+    const levels = LevelRegistry.getInstance().getAllLevelConfigs();
+    const campaignService = CampaignService.getInstance();
+
+    this.levelCards = [];
+    this.selectedLevel = null;
+
+    const availableWidth = width - 2 * this.pageArrowMargin;
+    this.levelsPerPage = Math.max(
+      1,
+      Math.floor((availableWidth + this.levelCardSpacing) / (LEVEL_CARD_WIDTH + this.levelCardSpacing))
+    );
+
+    const cardsPerRow = Math.min(this.levelsPerPage, levels.length);
+    const rowWidth = cardsPerRow * LEVEL_CARD_WIDTH + (cardsPerRow - 1) * this.levelCardSpacing;
+    const startX = width / 2 - rowWidth / 2 + LEVEL_CARD_WIDTH / 2;
+    const cardsY = height / 2 + 30;
+
+    levels.forEach((level, index) => {
+      const levelCard = new LevelCardRenderer(
+        this,
+        level,
+        startX + (index % this.levelsPerPage) * (LEVEL_CARD_WIDTH + this.levelCardSpacing),
+        cardsY,
+        campaignService.getLevelProgress(level.id),
+        !campaignService.isLevelUnlocked(level),
+        (clickedLevel) => this.selectLevel(clickedLevel)
+      );
+      this.levelCards.push(levelCard);
+    });
+
+    this.previousPageArrow = this.createPageArrow(this.pageArrowMargin / 2, cardsY, '<', -1);
+    this.nextPageArrow = this.createPageArrow(width - this.pageArrowMargin / 2, cardsY, '>', 1);
+
+    const firstUnlockedIndex = levels.findIndex(level => campaignService.isLevelUnlocked(level));
+    if (firstUnlockedIndex >= 0) {
+      this.selectLevel(levels[firstUnlockedIndex]);
+    }
+    this.showLevelPage(Math.max(0, Math.floor(firstUnlockedIndex / this.levelsPerPage)));
+  }
+
+  /**
+   * Create an arrow that turns the page of level cards
+   * @param x X position of the arrow center
+   * @param y Y position of the arrow center
+   * @param label Text of the arrow
+   * @param direction Number of pages to turn by
+   */
+  private createPageArrow(x: number, y: number, label: string, direction: number): Phaser.GameObjects.Text {
+    const arrow = this.add.text(x, y, label, {
+      fontSize: '64px',
+      color: '#ffffff',
+      fontStyle: 'bold'
     });
-    
-    playButton.on('pointerout', () => {
-      playButton.setScale(1.0);
+    arrow.setOrigin(0.5);
+
+    arrow.setInteractive({ useHandCursor: true })
+      .on('pointerdown', () => this.showLevelPage(this.levelPage + direction));
+
+    // Arrow hover effects
+    arrow.on('pointerover', () => {
+      arrow.setScale(1.1);
+    });
+
+    arrow.on('pointerout', () => {
+      arrow.setScale(1.0);
+    });
+
+    return arrow;
+  }
+
+  /**
+   * Show the level cards of a page and only the arrows to the pages next to it
+   * @param page Index of the page to show
+   */
+  private showLevelPage(page: number): void {
+    const pageCount = Math.max(1, Math.ceil(this.levelCards.length / this.levelsPerPage));
+    this.levelPage = Phaser.Math.Clamp(page, 0, pageCount - 1);
+
+    this.levelCards.forEach((levelCard, index) => {
+      levelCard.getContainer().setVisible(Math.floor(index / this.levelsPerPage) === this.levelPage);
+    });
+
+    this.previousPageArrow?.setVisible(this.levelPage > 0);
+    this.nextPageArrow?.setVisible(this.levelPage < pageCount - 1);
+  }
+
+  /**
+   * Select the level that will be started with the Play button
+   * @param level The level to select
+   */
+  private selectLevel(level: LevelConfig): void {
+    this.selectedLevel = level;
+    this.levelCards.forEach(levelCard => {
+      levelCard.setSelected(levelCard.getLevel().id === level.id);
     });
   }
-} 
\ No newline at end of file
+}
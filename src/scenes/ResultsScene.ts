@@ -0,0 +1,160 @@
+import Phaser from 'phaser';
+import { trackEvent } from '../game';
+import { BattleOutcome, BattleResult } from '../services/BattleService';
+import { CampaignResult, CampaignService } from '../services/CampaignService';
+import { EnemyRegistry } from '../services/EnemyRegistry';
+import { LevelRegistry } from '../services/LevelRegistry';
+import { MenuButtonRenderer } from '../ui/MenuButtonRenderer';
+
+/**
+ * Data passed to the results scene when a run is finished
+ */
+export interface ResultsSceneData {
+  levelId: string;
+  result: BattleResult;
+  campaignResult: CampaignResult;
+}
+
+export class ResultsScene extends Phaser.Scene {
+  private levelId!: string;
+  private result!: BattleResult;
+  private campaignResult!: CampaignResult;
+
+  constructor() {
+    super({ key: 'ResultsScene' });
+  }
+
+  init(data: ResultsSceneData): void {
+    if (!data || !data.levelId || !data.result || !data.campaignResult) {
+      throw new Error('Level ID, battle result and campaign result are required');
+    }
+
+    this.levelId = data.levelId;
+    this.result = data.result;
+    this.campaignResult = data.campaignResult;
+  }
+
+  create(): void {
+    const { width, height } = this.cameras.main;
+    const isVictory = this.result.outcome === BattleOutcome.VICTORY;
+
+    // Background panel
+    const panel = this.add['nineslice'](
+      width / 2,
+      height / 2,
+      'panel_metal_corners_metal_nice',
+      undefined,
+      600,
+      520,
+      20,
+      20,
+      20,
+      20
+    );
+    panel.setOrigin(0.5, 0.5);
+
+    // Title
+    const title = this.add.text(width / 2, height / 2 - 210, isVictory ? 'Victory!' : 'Defeat', {
+      fontSize: '48px',
+      color: isVictory ? '#66ff66' : '#ff6666',
+      fontStyle: 'bold'
+    });
+    title.setOrigin(0.5);
+
+    // Battle summary
+    const summary = this.add.text(
+      width / 2,
+      height / 2 - 105,
+      [
+        `The final battle was fought on day ${this.result.day}`,
+        `Waves repelled: ${isVictory ? this.result.waveNumber : this.result.waveNumber - 1}/${this.result.waveCount}`,
+        `Village power: ${this.result.playerPower}`,
+        `Village defense: ${this.result.defense}`,
+        `${this.result.waveName} strength: ${this.result.invasionStrength}`,
+        this.getEnemiesText()
+      ].join('\n'),
+      {
+        fontSize: '22px',
+        color: '#ffffff',
+        align: 'center'
+      }
+    );
+    summary.setOrigin(0.5);
+
+    this.createStarGoals(width / 2, height / 2 + 10);
+
+    new MenuButtonRenderer(this, width / 2 - 120, height / 2 + 200, 'Play again', () => {
+      trackEvent('game_start', {
+        event_category: 'game_flow',
+        event_label: 'play_again',
+        level_id: this.levelId
+      });
+
+      this.scene.start('GameScene', { levelId: this.levelId });
+    });
+
+    new MenuButtonRenderer(this, width / 2 + 120, height / 2 + 200, 'Level select', () => {
+      this.scene.start('LevelSelectScene');
+    });
+
+    // Track scene load for analytics
+    trackEvent('scene_enter', {
+      event_category: 'navigation',
+      event_label: 'results_scene',
+      level_id: this.levelId,
+      result: this.result.outcome
+    });
+  }
+
+  /**
+   * Get the text listing the enemies of the last battle
+   */
+  private getEnemiesText(): string {
+    const enemyRegistry = EnemyRegistry.getInstance();
+    const enemies = this.result.enemies
+      .map(entry => `${entry.count}x ${enemyRegistry.getEnemyConfig(entry.enemyId)?.name || entry.enemyId}`);
+
+    return enemies.length > 0 ? `Enemies: ${enemies.join(', ')}` : '';
+  }
+
+  /**
+   * Create the row of earned stars and the list of star goals of the level
+   * @param x X position of the center
+   * @param y Y position of the star row
+   */
+  private createStarGoals(x: number, y: number): void {
+    const level = LevelRegistry.getInstance().getLevelConfig(this.levelId);
+    if (!level || level.starGoals.length === 0) return;
+
+    const starSize = 40;
+    const starSpacing = 10;
+    const rowWidth = level.starGoals.length * starSize + (level.starGoals.length - 1) * starSpacing;
+    const startX = x - rowWidth / 2 + starSize / 2;
+
+    this.campaignResult.goalsReached.forEach((reached, index) => {
+      const star = this.add.image(
+        startX + index * (starSize + starSpacing),
+        y,
+        reached ? 'star_filled' : 'star_empty'
+      );
+      star.setDisplaySize(starSize, starSize);
+    });
+
+    const goalLines = level.starGoals.map((goal, index) =>
+      `${this.campaignResult.goalsReached[index] ? '[x]' : '[ ]'} ${CampaignService.describeStarGoal(goal)}`
+    );
+
+    const unlockedLevelNames = this.campaignResult.newlyUnlockedLevelIds
+      .map(levelId => LevelRegistry.getInstance().getLevelConfig(levelId)?.name || levelId);
+    if (unlockedLevelNames.length > 0) {
+      goalLines.push('', `Unlocked: ${unlockedLevelNames.join(', ')}`);
+    }
+
+    const goals = this.add.text(x, y + 35, goalLines.join('\n'), {
+      fontSize: '18px',
+      color: '#ffffff',
+      align: 'left'
+    });
+    goals.setOrigin(0.5, 0);
+  }
+}
@@ -0,0 +1,62 @@
+import { AdventureConfig, AdventureLevel, convertAdventureJsonToConfig } from '../entities/Adventure';
+
+/**
+ * Global registry for the adventure cards drawn in the tavern
+ */
+export class AdventureRegistry {
+  private static _instance: AdventureRegistry;
+  private _adventureConfigs: Map<string, AdventureConfig> = new Map();
+  
+  private constructor() {}
+  
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): AdventureRegistry {
+    if (!this._instance) {
+      this._instance = new AdventureRegistry();
+    }
+    return this._instance;
+  }
+  
+  /**
+   * Load adventure configurations from JSON array
+   * @param adventuresJson Array of adventure configurations from JSON
+   */
+  public loadAdventures(adventuresJson: any[]): void {
+    adventuresJson.forEach(adventureJson => {
+      const config = convertAdventureJsonToConfig(adventureJson);
+      this._adventureConfigs.set(config.id, config);
+    });
+  }
+  
+  /**
+   * Get an adventure configuration by ID
+   * @param adventureId The adventure ID
+   */
+  public getAdventureConfig(adventureId: string): AdventureConfig | undefined {
+    return this._adventureConfigs.get(adventureId);
+  }
+  
+  /**
+   * Get all available adventure configurations
+   */
+  public getAllAdventureConfigs(): AdventureConfig[] {
+    return Array.from(this._adventureConfigs.values());
+  }
+  
+  /**
+   * Get the pool of adventures of a tavern level
+   * @param level The adventure level
+   */
+  public getAdventuresForLevel(level: AdventureLevel): AdventureConfig[] {
+    return this.getAllAdventureConfigs().filter(adventure => adventure.level === level);
+  }
+  
+  /**
+   * Clear all registered adventures
+   */
+  public clear(): void {
+    this._adventureConfigs.clear();
+  }
+}
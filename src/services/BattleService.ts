@@ -0,0 +1,165 @@
+import Phaser from 'phaser';
+import { CardStatus } from '../entities/Card';
+import { WaveEnemy } from '../entities/Enemy';
+import { PlayerHand } from '../entities/PlayerHand';
+import { ResourceType } from '../entities/Types';
+import { AnalyticsService } from './AnalyticsService';
+import { BuildingService } from './BuildingService';
+import { InvasionService } from './InvasionService';
+
+/**
+ * Possible outcomes of a battle against the invasion
+ */
+export enum BattleOutcome {
+  VICTORY = 'victory',
+  DEFEAT = 'defeat'
+}
+
+/**
+ * Result of resolving a battle against the invasion
+ */
+export interface BattleResult {
+  outcome: BattleOutcome;
+  playerPower: number;
+  defense: number;
+  invasionStrength: number;
+  day: number;
+  buildingsConstructed: number;
+  waveNumber: number;
+  waveCount: number;
+  waveName: string;
+  enemies: WaveEnemy[];
+  levelOver: boolean; // True when the level ends with this battle
+  injuredCards: number; // Cards injured in a repelled wave
+}
+
+/**
+ * How the cards are affected by a battle against a wave that was repelled
+ * Every card that fought, i.e. has power, can be injured
+ */
+export interface BattleAftermathConfig {
+  injuryChance: number;
+  injuryDays: number;
+}
+
+/**
+ * Raw battle_aftermath entry of game.json
+ */
+export interface BattleAftermathJson {
+  injury_chance?: number;
+  injury_days?: number;
+}
+
+/**
+ * Function to convert the battle_aftermath JSON data of game.json to BattleAftermathConfig
+ * @param aftermathJson The battle_aftermath entry of game.json
+ */
+export function convertBattleAftermathJsonToConfig(aftermathJson?: BattleAftermathJson): BattleAftermathConfig {
+  return {
+    injuryChance: aftermathJson?.injury_chance || 0,
+    injuryDays: aftermathJson?.injury_days || 0
+  };
+}
+
+/**
+ * Events emitted by the BattleService
+ */
+export enum BattleServiceEvents {
+  WAVE_REPELLED = 'wave-repelled',
+  BATTLE_RESOLVED = 'battle-resolved'
+}
+
+/**
+ * Service responsible for resolving the battles when the invasion waves reach the village
+ */
+export class BattleService extends Phaser.Events.EventEmitter {
+  private playerHand: PlayerHand;
+  private invasionService: InvasionService;
+  private buildingService: BuildingService;
+  private aftermath: BattleAftermathConfig;
+
+  /**
+   * Create a new BattleService
+   * @param playerHand The player's hand, used to calculate the power of all cards
+   * @param invasionService Service tracking the invasion
+   * @param buildingService Service for managing buildings
+   * @param aftermath How the cards are affected by a repelled wave
+   */
+  constructor(
+    playerHand: PlayerHand,
+    invasionService: InvasionService,
+    buildingService: BuildingService,
+    aftermath: BattleAftermathConfig = convertBattleAftermathJsonToConfig({})
+  ) {
+    super();
+    this.playerHand = playerHand;
+    this.invasionService = invasionService;
+    this.buildingService = buildingService;
+    this.aftermath = aftermath;
+  }
+
+  /**
+   * Calculate the total strength the village can put against the invasion
+   * @returns The total power of all player cards
+   */
+  public calculatePlayerPower(): number {
+    return this.playerHand.calculateTotalPower();
+  }
+
+  /**
+   * Resolve the battle against the wave that reached the village
+   * The player wins if their total power plus the defense of buildings is at least the wave strength.
+   * Enemy traits of the wave can weaken the defense of specific buildings.
+   * A repelled wave lets the next wave start its march, the level ends on a defeat or after the last wave.
+   * @returns The result of the battle
+   */
+  public resolveBattle(): BattleResult {
+    const playerPower = this.calculatePlayerPower();
+    const defense = this.buildingService.getTotalDefense(this.invasionService.getUpcomingEnemyTraits());
+    const invasionStrength = this.invasionService.getDifficulty();
+    const day = this.invasionService.getCurrentDay();
+    const outcome = playerPower + defense >= invasionStrength ? BattleOutcome.VICTORY : BattleOutcome.DEFEAT;
+
+    const result: BattleResult = {
+      outcome,
+      playerPower,
+      defense,
+      invasionStrength,
+      day,
+      buildingsConstructed: this.buildingService.getPlayerConstructedBuildingCount(),
+      waveNumber: this.invasionService.getCurrentWaveIndex() + 1,
+      waveCount: this.invasionService.getWaveCount(),
+      waveName: this.invasionService.getUpcomingWave().name,
+      enemies: [...this.invasionService.getUpcomingEnemies()],
+      levelOver: outcome === BattleOutcome.DEFEAT || this.invasionService.isLastWave(),
+      injuredCards: 0
+    };
+
+    console.log(`Battle against wave ${result.waveNumber}/${result.waveCount} resolved on day ${day}: ${result.outcome} (power ${playerPower} + defense ${defense} vs strength ${invasionStrength})`);
+
+    if (!result.levelOver) {
+      result.injuredCards = this.injureCards();
+      this.emit(BattleServiceEvents.WAVE_REPELLED, result);
+      this.invasionService.startNextWave();
+      return result;
+    }
+
+    AnalyticsService.trackGameEnd(day, result.outcome);
+    this.emit(BattleServiceEvents.BATTLE_RESOLVED, result);
+
+    return result;
+  }
+
+  /**
+   * Injure random cards that fought in a repelled wave
+   * @returns The number of injured cards
+   */
+  private injureCards(): number {
+    const injuredCards = this.playerHand.getAllCards()
+      .filter(card => card.getResourceValue(ResourceType.Power) > 0)
+      .filter(() => Math.random() < this.aftermath.injuryChance);
+
+    injuredCards.forEach(card => card.addStatus(CardStatus.Injured, this.aftermath.injuryDays));
+    return injuredCards.length;
+  }
+}
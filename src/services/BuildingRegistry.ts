@@ -83,6 +83,9 @@ export class BuildingRegistry {
       image: building.image,
       cost: building.cost,
       limit: building.limit,
+      upgradesTo: building.upgradesTo,
+      requires: building.requires,
+      multiDay: building.multiDay,
       effects: building.effects
     };
   }
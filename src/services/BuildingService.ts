@@ -1,8 +1,15 @@
 import Phaser from 'phaser';
 import { v4 as uuidv4 } from 'uuid';
-import { BuildingConfig, BuildingSlot, BuildingSlotLocation } from '../entities/Building';
+import { BuildingConfig, BuildingSlot, BuildingSlotLocation, BuildingTrigger } from '../entities/Building';
+import { Card, stringToRace } from '../entities/Card';
+import { EnemyTrait } from '../entities/Enemy';
+import { RaceBonus, stringToResourceType } from '../entities/RaceSynergy';
+import { ResourceCost, ResourceType } from '../entities/Types';
 import { Building as BuildingInterface } from '../types/game';
 import { BuildingRegistry } from './BuildingRegistry';
+import { DeckService } from './DeckService';
+import { EffectDispatcher } from './EffectDispatcher';
+import { InvasionService } from './InvasionService';
 import { ResourceService } from './ResourceService';
 
 /**
@@ -10,7 +17,30 @@ import { ResourceService } from './ResourceService';
  */
 export enum BuildingServiceEvents {
   MENU_STATE_CHANGED = 'menu-state-changed',
-  BUILDING_CONSTRUCTED = 'building-constructed'
+  BUILDING_CONSTRUCTED = 'building-constructed',
+  BUILDING_UPGRADED = 'building-upgraded',
+  BUILDING_DEMOLISHED = 'building-demolished',
+  PROJECT_PROGRESSED = 'project-progressed'
+}
+
+/**
+ * Multi-day building under construction in a slot
+ * The building has no effects until the invested construction covers its construction cost
+ */
+export interface ConstructionProject {
+  buildingId: string;
+  slotUniqueId: string;
+  invested: number;
+}
+
+/**
+ * Serializable state of the buildings, used for saving and restoring a run
+ * Slots are referenced by index, since slot unique IDs are regenerated on every load
+ */
+export interface BuildingServiceState {
+  constructed: Array<{ buildingId: string; slotIndex: number | null }>;
+  projects?: Array<{ buildingId: string; slotIndex: number; invested: number }>;
+  oneTimeEffectsApplied?: Record<string, number>;
 }
 
 /**
@@ -22,24 +52,41 @@ export class BuildingService extends Phaser.Events.EventEmitter {
   private buildingSlots: BuildingSlot[] = [];
   private buildingSlotLocations: BuildingSlotLocation[] = [];
   private slotToBuildingMap: Record<string, string> = {};
+  private projects: ConstructionProject[] = [];
   private isMenuOpen: boolean = false;
   private currentSlotId: string | null = null;
   private resourceService: ResourceService;
+  private invasionService: InvasionService;
+  private initialBuildingCount: number = 0;
+  private effectDispatcher?: EffectDispatcher;
+  private deckService?: DeckService<Card>;
+  private upgradeBuildingId?: string;
+  private demolishRefundRatio: number;
+  private oneTimeEffectsApplied: Record<string, number> = {}; // Most buildings of an ID whose one-time effects were applied
 
   /**
    * Create a new BuildingService
    * @param buildingSlotsConfig Initial building slots from config (will get unique_ids assigned)
    * @param buildingSlotLocations Initial building slot locations from config (will be mapped to slots)
    * @param resourceService Service for managing game resources
+   * @param invasionService Service tracking the days, used for building requirements
+   * @param upgradeBuildingId ID of the building required for upgrades, upgrades are always allowed without it
+   * @param demolishRefundRatio Part of the cost refunded when a building is demolished (0-1)
    */
   constructor(
     buildingSlotsConfig: BuildingSlot[],
     buildingSlotLocations: BuildingSlotLocation[],
-    resourceService: ResourceService
+    resourceService: ResourceService,
+    invasionService: InvasionService,
+    upgradeBuildingId?: string,
+    demolishRefundRatio: number = 0.5
   ) {
     super();
     this.buildingRegistry = BuildingRegistry.getInstance();
     this.resourceService = resourceService;
+    this.invasionService = invasionService;
+    this.upgradeBuildingId = upgradeBuildingId;
+    this.demolishRefundRatio = demolishRefundRatio;
     
     this.initializeBuildingSlots(buildingSlotsConfig, buildingSlotLocations);
     this.initializeBuildings();
@@ -85,14 +132,32 @@ export class BuildingService extends Phaser.Events.EventEmitter {
 
   /**
    * Initialize buildings from configuration
-   * Immediately constructs buildings that are defined as already_constructed in the level config
+   * Immediately constructs buildings that are defined as already_constructed in the level config,
+   * they are placed without paying their cost, including multi-day buildings
    */
   private initializeBuildings(): void {    
     this.buildingSlots.forEach(slot => {
       if (slot.already_constructed) {
-        this.constructBuilding(slot.already_constructed, slot.unique_id);
+        this.completeConstruction(this.getBuildingConfig(slot.already_constructed), slot.unique_id);
       }
     });
+    this.initialBuildingCount = this.constructedBuildings.length;
+  }
+
+  /**
+   * Set the effect dispatcher used to apply building effects on construction
+   * @param effectDispatcher The effect dispatcher to use
+   */
+  public setEffectDispatcher(effectDispatcher: EffectDispatcher): void {
+    this.effectDispatcher = effectDispatcher;
+  }
+
+  /**
+   * Set the deck whose limit buildings with increase_deck_limit effects raise
+   * @param deckService The player's deck
+   */
+  public setDeckService(deckService: DeckService<Card>): void {
+    this.deckService = deckService;
   }
 
   /**
@@ -162,23 +227,153 @@ export class BuildingService extends Phaser.Events.EventEmitter {
   
   /**
    * Get the count of constructed buildings with the given ID
+   * Buildings upgraded to a higher tier still count for the building they were constructed as
    * @param buildingId The building ID to count
    * @returns The number of buildings with this ID that have been constructed
    */
   public getConstructedBuildingCount(buildingId: string): number {
-    return this.constructedBuildings.filter(b => b.id === buildingId).length;
+    const tierIds = this.getUpgradeChain(buildingId);
+    return this.constructedBuildings.filter(b => tierIds.includes(b.id)).length;
+  }
+
+  /**
+   * Get the IDs of a building and all the higher tiers it can be upgraded to, in order
+   * @param buildingId The ID of the lowest tier
+   */
+  public getUpgradeChain(buildingId: string): string[] {
+    const chain: string[] = [];
+    let tierId: string | undefined = buildingId;
+    while (tierId && !chain.includes(tierId)) {
+      chain.push(tierId);
+      tierId = this.getBuildingConfig(tierId).upgradesTo;
+    }
+    return chain;
+  }
+
+  /**
+   * Get the number of buildings constructed by the player, excluding the ones the level started with
+   */
+  public getPlayerConstructedBuildingCount(): number {
+    return Math.max(0, this.constructedBuildings.length - this.initialBuildingCount);
+  }
+
+  /**
+   * Get the total defense provided by all constructed buildings with add_defense effects
+   * @param enemyTraits Traits of the attacking enemies that weaken the defense of specific buildings
+   */
+  public getTotalDefense(enemyTraits: EnemyTrait[] = []): number {
+    return this.constructedBuildings.reduce((total, building) => {
+      const defense = (building.effects || [])
+        .filter(effect => effect.type === 'add_defense')
+        .reduce((sum, effect) => sum + (effect.amount || 0), 0);
+      return total + Math.floor(defense * this.getDefenseMultiplier(building.id, enemyTraits));
+    }, 0);
+  }
+
+  /**
+   * Get the bonuses of constructed buildings with buff_race effects for cards played together
+   * Every card of the buffed race adds the amount of the effect
+   * @param cards The cards played together
+   * @param resourceType The resource the cards are played for
+   */
+  public getRaceBuffBonuses(cards: Card[], resourceType: ResourceType): RaceBonus[] {
+    const bonuses: RaceBonus[] = [];
+
+    this.constructedBuildings.forEach(building => {
+      (building.effects || [])
+        .filter(effect => effect.type === 'buff_race' && stringToResourceType(effect.resource) === resourceType)
+        .forEach(effect => {
+          const race = stringToRace(effect.race);
+          const raceCardCount = cards.filter(card => card.race === race).length;
+          if (raceCardCount > 0) {
+            bonuses.push({ source: building.name, value: raceCardCount * (effect.amount || 0) });
+          }
+        });
+    });
+
+    return bonuses;
+  }
+
+  /**
+   * Get how much of a building's defense remains against enemies with the given traits
+   * @param buildingId The ID of the building
+   * @param enemyTraits Traits of the attacking enemies
+   */
+  private getDefenseMultiplier(buildingId: string, enemyTraits: EnemyTrait[]): number {
+    return enemyTraits
+      .filter(trait => trait.buildingId === buildingId)
+      .reduce((multiplier, trait) => {
+        switch (trait.type) {
+          case 'ignore_defense':
+            return 0;
+          case 'damage_multiplier':
+            return multiplier / (trait.multiplier || 1);
+          default:
+            return multiplier;
+        }
+      }, 1);
+  }
+
+  /**
+   * Get the count of constructed buildings with the given ID, without the building about to be replaced in a slot
+   * @param buildingId The building ID to count, higher tiers count as well
+   * @param replacedSlotUniqueId Optional unique ID of the slot whose building is replaced
+   */
+  private getRemainingBuildingCount(buildingId: string, replacedSlotUniqueId?: string): number {
+    const replacedBuildingId = replacedSlotUniqueId ? this.getBuildingInSlot(replacedSlotUniqueId) : null;
+    const isReplaced = replacedBuildingId !== null && this.getUpgradeChain(buildingId).includes(replacedBuildingId);
+    return this.getConstructedBuildingCount(buildingId) - (isReplaced ? 1 : 0);
   }
 
   /**
    * Check if the constructed building limit has been reached for a specific building
    * @param buildingId The ID of the building to check
+   * @param replacedSlotUniqueId Optional unique ID of the slot whose building is replaced, it doesn't count
    * @returns true if the limit has been reached, false otherwise
    */
-  public reachedConstructedBuildingLimit(buildingId: string): boolean {
+  public reachedConstructedBuildingLimit(buildingId: string, replacedSlotUniqueId?: string): boolean {
     const building = this.getBuildingConfig(buildingId);
     if (building.limit === null) {return false;}
     
-    return this.getConstructedBuildingCount(buildingId) >= (building.limit || 0);
+    // Buildings still under construction count towards the limit as well
+    const tierIds = this.getUpgradeChain(buildingId);
+    const projectCount = this.projects.filter(project => tierIds.includes(project.buildingId)).length;
+    return this.getRemainingBuildingCount(buildingId, replacedSlotUniqueId) + projectCount >= (building.limit || 0);
+  }
+
+  /**
+   * Get the reasons why a building can't be constructed yet
+   * @param buildingId The ID of the building to check
+   * @param replacedSlotUniqueId Optional unique ID of the slot whose building is replaced, it meets no requirement
+   * @returns A description of every requirement that is not met, empty if the building is unlocked
+   */
+  public getMissingRequirements(buildingId: string, replacedSlotUniqueId?: string): string[] {
+    const requires = this.getBuildingConfig(buildingId).requires;
+    if (!requires) return [];
+
+    const missing = requires.buildings
+      .filter(requiredId => this.getRemainingBuildingCount(requiredId, replacedSlotUniqueId) === 0)
+      .map(requiredId => `Requires ${this.getBuildingConfig(requiredId).name}`);
+
+    if (this.invasionService.getCurrentDay() < requires.day) {
+      missing.push(`Available from day ${requires.day}`);
+    }
+
+    const inventionSpent = this.resourceService.getInventionSpent();
+    if (inventionSpent < requires.inventionSpent) {
+      missing.push(`Requires ${requires.inventionSpent} invention spent (${inventionSpent} so far)`);
+    }
+
+    return missing;
+  }
+
+  /**
+   * Check if all requirements of a building are met
+   * @param buildingId The ID of the building to check
+   * @param replacedSlotUniqueId Optional unique ID of the slot whose building is replaced, it meets no requirement
+   */
+  public isBuildingUnlocked(buildingId: string, replacedSlotUniqueId?: string): boolean {
+    return this.getMissingRequirements(buildingId, replacedSlotUniqueId).length === 0;
   }
 
   public getBuildingConfig(buildingId: string): BuildingConfig {
@@ -189,29 +384,59 @@ export class BuildingService extends Phaser.Events.EventEmitter {
   
   /**
    * Construct a new building
+   * A building already constructed in the slot is demolished first and its refund counts towards the cost.
+   * Multi-day buildings can't be constructed at once, they are started as a project with startProject
    * @param buildingId The ID of the building to construct
    * @param slotUniqueId Optional unique ID of the slot where the building should be constructed
    * @returns true if building was constructed, false if it was already constructed or doesn't exist
    */
   public constructBuilding(buildingId: string, slotUniqueId?: string): boolean {
-    if (this.reachedConstructedBuildingLimit(buildingId)) {
+    // The building replaced in the slot counts neither towards the limit nor for the requirements
+    if (this.reachedConstructedBuildingLimit(buildingId, slotUniqueId) || !this.isBuildingUnlocked(buildingId, slotUniqueId)) {
+      return false;
+    }
+    
+    // A slot with a project can only be used to continue the project
+    if (slotUniqueId && this.getProject(slotUniqueId)) {
       return false;
     }
     
     const building = this.getBuildingConfig(buildingId);
-    const requiredConstruction = building.cost?.construction || 0;
-    const availableConstruction = this.resourceService.getConstruction();
+    if (building.multiDay) {
+      return false;
+    }
+
+    const replacedBuildingId = slotUniqueId ? this.getBuildingInSlot(slotUniqueId) : null;
+    if (slotUniqueId && replacedBuildingId && this.getDemolishBlockers(slotUniqueId).length > 0) {
+      return false;
+    }
 
     // Check if player can afford the building
-    if (availableConstruction < requiredConstruction) {
+    if (!this.resourceService.hasEnoughResources(this.getConstructionCost(buildingId, slotUniqueId))) {
       return false;
     }
 
+    if (slotUniqueId && replacedBuildingId) {
+      this.demolishBuilding(slotUniqueId);
+    }
+
+    this.resourceService.consumeResources(building.cost || {});
+    this.completeConstruction(building, slotUniqueId);
+    
+    return true;
+  }
+
+  /**
+   * Add a paid building to the constructed buildings and apply its effects
+   * @param building The building to add
+   * @param slotUniqueId Optional unique ID of the slot of the building
+   */
+  private completeConstruction(building: BuildingConfig, slotUniqueId?: string): void {
+    const buildingId = building.id;
+
     // Add to constructed buildings
     this.constructedBuildings.push(building);
     
-    this.resourceService.consumeConstruction(requiredConstruction);
-    
     // If a slot was specified, update the slot mapping
     if (slotUniqueId) {
       // Get the slot to update its constructed status
@@ -231,9 +456,379 @@ export class BuildingService extends Phaser.Events.EventEmitter {
     // Emit building constructed event with building ID and slot ID
     this.emit(BuildingServiceEvents.BUILDING_CONSTRUCTED, buildingId, slotUniqueId || null);
     
+    this.applyOneTimeEffects(building);
+    this.triggerEffects(BuildingTrigger.OnConstruct);
+  }
+
+  /**
+   * Apply the one-time effects of a building that was just constructed or upgraded to
+   * The ones with a 'when' are applied at their trigger. A demolished building that is rebuilt
+   * doesn't apply its one-time effects again, only constructing more buildings of an ID than before does
+   * @param building The building that was added
+   */
+  private applyOneTimeEffects(building: BuildingConfig): void {
+    const constructedCount = this.constructedBuildings.filter(candidate => candidate.id === building.id).length;
+    if (constructedCount <= (this.oneTimeEffectsApplied[building.id] || 0)) {
+      return;
+    }
+    this.oneTimeEffectsApplied[building.id] = constructedCount;
+
+    if (this.effectDispatcher) {
+      this.effectDispatcher.dispatchAll(building.effects.filter(effect => !effect.when));
+    }
+  }
+
+  /**
+   * Apply the effects of all constructed buildings that are applied at a trigger
+   * @param trigger The moment that has come
+   */
+  public triggerEffects(trigger: BuildingTrigger): void {
+    if (!this.effectDispatcher) {
+      return;
+    }
+
+    const effects = this.constructedBuildings
+      .flatMap(building => building.effects.filter(effect => effect.when === trigger));
+    this.effectDispatcher.dispatchAll(effects);
+  }
+
+  /**
+   * Get the project under construction in a slot
+   * @param slotUniqueId The unique ID of the slot
+   * @returns The project, or null if nothing is under construction in the slot
+   */
+  public getProject(slotUniqueId: string): ConstructionProject | null {
+    const project = this.projects.find(candidate => candidate.slotUniqueId === slotUniqueId);
+    return project ? { ...project } : null;
+  }
+
+  /**
+   * Get all projects under construction
+   */
+  public getProjects(): ConstructionProject[] {
+    return this.projects.map(project => ({ ...project }));
+  }
+
+  /**
+   * Start constructing a multi-day building in an empty slot
+   * All resources but construction are paid upfront, then the available construction is invested right away
+   * @param buildingId The ID of the multi-day building
+   * @param slotUniqueId The unique ID of the empty slot
+   * @returns true if the project was started, false if the building or slot can't be used or the player can't afford it
+   */
+  public startProject(buildingId: string, slotUniqueId: string): boolean {
+    const building = this.getBuildingConfig(buildingId);
+    if (!building.multiDay || this.getBuildingInSlot(slotUniqueId) || this.getProject(slotUniqueId) ||
+      this.reachedConstructedBuildingLimit(buildingId) || !this.isBuildingUnlocked(buildingId)) {
+      return false;
+    }
+
+    const upfrontCost = { ...building.cost, construction: 0 };
+    if (!this.resourceService.consumeResources(upfrontCost)) {
+      return false;
+    }
+
+    this.projects.push({ buildingId, slotUniqueId, invested: 0 });
+    this.investInProject(slotUniqueId);
+    return true;
+  }
+
+  /**
+   * Invest the available construction into the project of a slot
+   * The building is completed and its effects applied once its construction cost is covered
+   * @param slotUniqueId The unique ID of the slot with the project
+   * @returns The construction invested
+   */
+  public investInProject(slotUniqueId: string): number {
+    const project = this.projects.find(candidate => candidate.slotUniqueId === slotUniqueId);
+    if (!project) return 0;
+
+    const building = this.getBuildingConfig(project.buildingId);
+    const required = building.cost?.construction || 0;
+    const amount = Math.min(this.resourceService.getConstruction(), required - project.invested);
+    if (amount > 0) {
+      this.resourceService.consumeConstruction(amount);
+      project.invested += amount;
+    }
+
+    if (project.invested >= required) {
+      this.projects = this.projects.filter(candidate => candidate !== project);
+      this.emit(BuildingServiceEvents.PROJECT_PROGRESSED, null, slotUniqueId);
+      this.completeConstruction(building, slotUniqueId);
+    } else {
+      this.emit(BuildingServiceEvents.PROJECT_PROGRESSED, { ...project }, slotUniqueId);
+    }
+
+    return amount;
+  }
+
+  /**
+   * Invest the available construction into all projects, oldest first
+   * Construction gathered from played cards that is still unspent when the resources are reset
+   * continues the projects, so they accumulate construction over several days
+   * @returns The construction invested
+   */
+  public investInProjects(): number {
+    return [...this.projects].reduce((total, project) => total + this.investInProject(project.slotUniqueId), 0);
+  }
+
+  /**
+   * Get the resources needed to construct a building in a slot
+   * Replacing a building constructed in the slot is cheaper by the refund of the demolished building
+   * @param buildingId The ID of the building to construct
+   * @param slotUniqueId Optional unique ID of the slot where the building should be constructed
+   */
+  public getConstructionCost(buildingId: string, slotUniqueId?: string): ResourceCost {
+    const cost = this.getBuildingConfig(buildingId).cost || {};
+    const replacedBuildingId = slotUniqueId ? this.getBuildingInSlot(slotUniqueId) : null;
+    if (!replacedBuildingId) return { ...cost };
+
+    const refund = this.getDemolishRefund(replacedBuildingId);
+    return {
+      power: Math.max(0, (cost.power || 0) - (refund.power || 0)),
+      construction: Math.max(0, (cost.construction || 0) - (refund.construction || 0)),
+      invention: Math.max(0, (cost.invention || 0) - (refund.invention || 0))
+    };
+  }
+
+  /**
+   * Get the resources refunded when demolishing a building
+   * @param buildingId The ID of the building to demolish
+   */
+  public getDemolishRefund(buildingId: string): ResourceCost {
+    const cost = this.getBuildingConfig(buildingId).cost || {};
+    return {
+      power: Math.floor((cost.power || 0) * this.demolishRefundRatio),
+      construction: Math.floor((cost.construction || 0) * this.demolishRefundRatio),
+      invention: Math.floor((cost.invention || 0) * this.demolishRefundRatio)
+    };
+  }
+
+  /**
+   * Get the reasons why the building constructed in a slot can't be demolished or replaced
+   * A building can't be removed while other buildings depend on it: the ones requiring it, when no other
+   * building meets the requirement, and the upgraded buildings, when it is the only building allowing upgrades.
+   * A building raising the deck limit can't be removed while the deck has more cards than the lowered limit.
+   * @param slotUniqueId The unique ID of the slot
+   * @returns A description of every reason, empty if it can be demolished
+   */
+  public getDemolishBlockers(slotUniqueId: string): string[] {
+    const buildingId = this.getBuildingInSlot(slotUniqueId);
+    if (!buildingId) return [];
+
+    const blockers: string[] = [];
+    const dependentIds = new Set([
+      ...this.constructedBuildings.map(building => building.id),
+      ...this.projects.map(project => project.buildingId)
+    ]);
+
+    dependentIds.forEach(dependentId => {
+      const requiredIds = this.getBuildingConfig(dependentId).requires?.buildings || [];
+      const needsBuilding = requiredIds.some(requiredId =>
+        this.getUpgradeChain(requiredId).includes(buildingId) && this.getConstructedBuildingCount(requiredId) === 1
+      );
+      if (needsBuilding) {
+        blockers.push(`Required by ${this.getBuildingConfig(dependentId).name}`);
+      }
+    });
+
+    const isOnlyUpgradeBuilding = buildingId === this.upgradeBuildingId &&
+      this.constructedBuildings.filter(building => building.id === buildingId).length === 1;
+    if (isOnlyUpgradeBuilding) {
+      const upgradedIds = new Set(this.getAllBuildingIds()
+        .map(id => this.getBuildingConfig(id).upgradesTo)
+        .filter((upgradeId): upgradeId is string => !!upgradeId));
+      this.constructedBuildings
+        .filter(building => upgradedIds.has(building.id))
+        .forEach(building => blockers.push(`Required by upgraded ${building.name}`));
+    }
+
+    const deckLimitIncrease = this.getBuildingConfig(buildingId).effects
+      .filter(effect => effect.type === 'increase_deck_limit')
+      .reduce((sum, effect) => sum + (effect.amount || 0), 0);
+    if (this.deckService && deckLimitIncrease > 0) {
+      const loweredLimit = this.deckService.deckLimit() - deckLimitIncrease;
+      const deckSize = this.deckService.getTotalDeckSize();
+      if (deckSize > loweredLimit) {
+        blockers.push(`The deck has ${deckSize} cards, more than the lowered deck limit of ${loweredLimit}`);
+      }
+    }
+
+    return blockers;
+  }
+
+  /**
+   * Demolish the building constructed in a slot, refunding part of its cost
+   * The slot becomes empty and the building stops providing its effects
+   * @param slotUniqueId The unique ID of the slot with the building to demolish
+   * @returns true if a building was demolished, false if the slot is empty or other buildings depend on it
+   */
+  public demolishBuilding(slotUniqueId: string): boolean {
+    const buildingId = this.getBuildingInSlot(slotUniqueId);
+    if (!buildingId || this.getDemolishBlockers(slotUniqueId).length > 0) {
+      return false;
+    }
+
+    const buildingIndex = this.constructedBuildings.findIndex(building => building.id === buildingId);
+    if (buildingIndex < 0) {
+      throw new Error(`Building ${buildingId} is mapped to slot ${slotUniqueId} but not found in constructed buildings`);
+    }
+
+    this.constructedBuildings.splice(buildingIndex, 1);
+    this.resourceService.addResources(this.getDemolishRefund(buildingId));
+
+    const slotIndex = this.buildingSlots.findIndex(slot => slot.unique_id === slotUniqueId);
+    this.buildingSlots[slotIndex] = {
+      ...this.buildingSlots[slotIndex],
+      already_constructed: null
+    };
+    delete this.slotToBuildingMap[slotUniqueId];
+
+    // Emit building demolished event with the building ID and slot ID
+    this.emit(BuildingServiceEvents.BUILDING_DEMOLISHED, buildingId, slotUniqueId);
+
+    return true;
+  }
+
+  /**
+   * Get the ID of the building that has to be constructed before upgrading, if any
+   */
+  public getUpgradeBuildingId(): string | undefined {
+    return this.upgradeBuildingId;
+  }
+
+  /**
+   * Check if the building required for upgrades has been constructed
+   */
+  public isUpgradeUnlocked(): boolean {
+    return !this.upgradeBuildingId || this.isBuildingConstructed(this.upgradeBuildingId);
+  }
+
+  /**
+   * Get the config of the next tier of the building constructed in a slot
+   * @param slotUniqueId The unique ID of the slot
+   * @returns The config of the next tier, or null if the slot is empty or the building has no higher tier
+   */
+  public getUpgradeConfig(slotUniqueId: string): BuildingConfig | null {
+    const buildingId = this.getBuildingInSlot(slotUniqueId);
+    if (!buildingId) return null;
+
+    const upgradesTo = this.getBuildingConfig(buildingId).upgradesTo;
+    return upgradesTo ? this.getBuildingConfig(upgradesTo) : null;
+  }
+
+  /**
+   * Upgrade the building constructed in a slot to its next tier
+   * The next tier replaces the building, so its effects replace the effects of the previous tier
+   * @param slotUniqueId The unique ID of the slot with the building to upgrade
+   * @returns true if the building was upgraded, false if it can't be upgraded or the player can't afford it
+   */
+  public upgradeBuilding(slotUniqueId: string): boolean {
+    const buildingId = this.getBuildingInSlot(slotUniqueId);
+    const upgrade = this.getUpgradeConfig(slotUniqueId);
+    if (!buildingId || !upgrade || !this.isUpgradeUnlocked() ||
+      this.reachedConstructedBuildingLimit(upgrade.id, slotUniqueId) || !this.isBuildingUnlocked(upgrade.id, slotUniqueId)) {
+      return false;
+    }
+
+    if (!this.resourceService.hasEnoughResources(upgrade.cost || {})) {
+      return false;
+    }
+
+    const buildingIndex = this.constructedBuildings.findIndex(building => building.id === buildingId);
+    if (buildingIndex < 0) {
+      throw new Error(`Building ${buildingId} is mapped to slot ${slotUniqueId} but not found in constructed buildings`);
+    }
+
+    this.constructedBuildings[buildingIndex] = upgrade;
+    this.resourceService.consumeResources(upgrade.cost || {});
+
+    const slotIndex = this.buildingSlots.findIndex(slot => slot.unique_id === slotUniqueId);
+    this.buildingSlots[slotIndex] = {
+      ...this.buildingSlots[slotIndex],
+      already_constructed: upgrade.id
+    };
+    this.slotToBuildingMap[slotUniqueId] = upgrade.id;
+
+    // Emit building upgraded event with the new building ID, slot ID and the replaced building ID
+    this.emit(BuildingServiceEvents.BUILDING_UPGRADED, upgrade.id, slotUniqueId, buildingId);
+
+    // Apply the one-time effects of the new tier, same as on construction
+    this.applyOneTimeEffects(upgrade);
+    this.triggerEffects(BuildingTrigger.OnConstruct);
+
     return true;
   }
 
+  /**
+   * Get the serializable state of constructed buildings
+   */
+  public getState(): BuildingServiceState {
+    const usedSlots = new Set<number>();
+    const constructed = this.constructedBuildings.map(building => {
+      const slotIndex = this.buildingSlots.findIndex((slot, index) =>
+        !usedSlots.has(index) && this.slotToBuildingMap[slot.unique_id] === building.id
+      );
+      if (slotIndex >= 0) {
+        usedSlots.add(slotIndex);
+      }
+      return { buildingId: building.id, slotIndex: slotIndex >= 0 ? slotIndex : null };
+    });
+    
+    const projects = this.projects.map(project => ({
+      buildingId: project.buildingId,
+      slotIndex: this.buildingSlots.findIndex(slot => slot.unique_id === project.slotUniqueId),
+      invested: project.invested
+    }));
+    
+    return { constructed, projects, oneTimeEffectsApplied: { ...this.oneTimeEffectsApplied } };
+  }
+
+  /**
+   * Restore constructed buildings from a saved state without consuming resources
+   * Emits BUILDING_CONSTRUCTED for every restored building so dependent services can rebuild their state
+   * @param state The saved building state
+   */
+  public restoreState(state: BuildingServiceState): void {
+    this.constructedBuildings = [];
+    this.slotToBuildingMap = {};
+    this.buildingSlots = this.buildingSlots.map(slot => ({ ...slot, already_constructed: null }));
+    
+    state.constructed.forEach(({ buildingId, slotIndex }) => {
+      this.constructedBuildings.push(this.getBuildingConfig(buildingId));
+      
+      let slotUniqueId: string | null = null;
+      if (slotIndex !== null && this.buildingSlots[slotIndex]) {
+        slotUniqueId = this.buildingSlots[slotIndex].unique_id;
+        this.buildingSlots[slotIndex] = {
+          ...this.buildingSlots[slotIndex],
+          already_constructed: buildingId
+        };
+        this.slotToBuildingMap[slotUniqueId] = buildingId;
+      }
+      
+      this.emit(BuildingServiceEvents.BUILDING_CONSTRUCTED, buildingId, slotUniqueId);
+    });
+    
+    this.projects = (state.projects || [])
+      .filter(({ slotIndex }) => this.buildingSlots[slotIndex])
+      .map(({ buildingId, slotIndex, invested }) => ({
+        buildingId,
+        slotUniqueId: this.buildingSlots[slotIndex].unique_id,
+        invested
+      }));
+    this.projects.forEach(project => {
+      this.emit(BuildingServiceEvents.PROJECT_PROGRESSED, { ...project }, project.slotUniqueId);
+    });
+
+    // Saves without the applied one-time effects count every constructed building as applied
+    this.oneTimeEffectsApplied = { ...state.oneTimeEffectsApplied };
+    this.constructedBuildings.forEach(building => {
+      const constructedCount = this.constructedBuildings.filter(candidate => candidate.id === building.id).length;
+      this.oneTimeEffectsApplied[building.id] = Math.max(this.oneTimeEffectsApplied[building.id] || 0, constructedCount);
+    });
+  }
+
   /**
    * Get all available building IDs
    */
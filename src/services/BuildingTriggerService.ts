@@ -0,0 +1,49 @@
+import { BuildingTrigger } from '../entities/Building';
+import { Card } from '../entities/Card';
+import { PlayerHand } from '../entities/PlayerHand';
+import { BuildingService } from './BuildingService';
+
+/**
+ * Service that applies the building effects with a 'when' at the moments of the game they are triggered by
+ * Effects at the start and end of a day and on construction are triggered by the services doing these
+ */
+export class BuildingTriggerService {
+  private buildingService: BuildingService;
+  private playerHand: PlayerHand;
+
+  /**
+   * Create a new BuildingTriggerService
+   * @param buildingService Service for the constructed buildings whose effects are applied
+   * @param playerHand The player's hand, whose played cards and discards trigger effects
+   */
+  constructor(buildingService: BuildingService, playerHand: PlayerHand) {
+    this.buildingService = buildingService;
+    this.playerHand = playerHand;
+
+    this.playerHand.on(PlayerHand.Events.CARDS_PLAYED, this.onCardsPlayed, this);
+    this.playerHand.on(PlayerHand.Events.HAND_DISCARDED, this.onHandDiscarded, this);
+  }
+
+  /**
+   * Handler for when cards are played
+   * @param cards The played cards
+   */
+  private onCardsPlayed(cards: Card[]): void {
+    cards.forEach(() => this.buildingService.triggerEffects(BuildingTrigger.OnCardPlayed));
+  }
+
+  /**
+   * Handler for when the whole hand is discarded
+   */
+  private onHandDiscarded(): void {
+    this.buildingService.triggerEffects(BuildingTrigger.OnHandDiscard);
+  }
+
+  /**
+   * Clean up event listeners
+   */
+  public destroy(): void {
+    this.playerHand.off(PlayerHand.Events.CARDS_PLAYED, this.onCardsPlayed, this);
+    this.playerHand.off(PlayerHand.Events.HAND_DISCARDED, this.onHandDiscarded, this);
+  }
+}
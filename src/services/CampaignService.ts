@@ -0,0 +1,150 @@
+import { LevelConfig, LevelStarGoal } from '../entities/Level';
+import { BattleOutcome, BattleResult } from './BattleService';
+import { StorageService } from './StorageService';
+
+/**
+ * Saved progress of a single level
+ */
+export interface LevelProgress {
+  completed: boolean;
+  stars: number;
+}
+
+/**
+ * Result of recording a finished run in the campaign
+ */
+export interface CampaignResult {
+  goalsReached: boolean[];
+  stars: number;
+  bestStars: number;
+  newlyUnlockedLevelIds: string[];
+}
+
+/**
+ * Service for tracking campaign progress: completed levels, unlocks and star ratings
+ */
+export class CampaignService {
+  private static _instance: CampaignService;
+  private static readonly PROGRESS_KEY = 'campaign_progress';
+  private progress: Record<string, LevelProgress>;
+
+  private constructor() {
+    this.progress = StorageService.load<Record<string, LevelProgress>>(CampaignService.PROGRESS_KEY, {});
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): CampaignService {
+    if (!this._instance) {
+      this._instance = new CampaignService();
+    }
+    return this._instance;
+  }
+
+  /**
+   * Get the saved progress of a level
+   * @param levelId The level ID
+   */
+  public getLevelProgress(levelId: string): LevelProgress {
+    return this.progress[levelId] || { completed: false, stars: 0 };
+  }
+
+  /**
+   * Check if a level was won at least once
+   * @param levelId The level ID
+   */
+  public isLevelCompleted(levelId: string): boolean {
+    return this.getLevelProgress(levelId).completed;
+  }
+
+  /**
+   * Check if all prerequisites of a level are completed
+   * @param level The level configuration
+   */
+  public isLevelUnlocked(level: LevelConfig): boolean {
+    return level.prerequisites.every(levelId => this.isLevelCompleted(levelId));
+  }
+
+  /**
+   * Check which star goals of a level were reached in a battle
+   * @param level The level configuration
+   * @param result The result of the battle
+   * @returns For every star goal, whether it was reached
+   */
+  public evaluateStarGoals(level: LevelConfig, result: BattleResult): boolean[] {
+    const isVictory = result.outcome === BattleOutcome.VICTORY;
+
+    // Stars are only awarded for won levels
+    return level.starGoals.map(goal => isVictory && this.isStarGoalReached(goal, result));
+  }
+
+  /**
+   * Check if a single star goal was reached
+   * @param goal The star goal
+   * @param result The result of the battle
+   */
+  private isStarGoalReached(goal: LevelStarGoal, result: BattleResult): boolean {
+    const amount = goal.amount || 0;
+
+    switch (goal.type) {
+      case 'victory':
+        return true;
+      case 'power_margin':
+        return result.playerPower + result.defense - result.invasionStrength >= amount;
+      case 'buildings_constructed':
+        return result.buildingsConstructed >= amount;
+      default:
+        console.warn(`Unknown star goal type: ${goal.type}`);
+        return false;
+    }
+  }
+
+  /**
+   * Get a human readable description of a star goal
+   * @param goal The star goal
+   */
+  public static describeStarGoal(goal: LevelStarGoal): string {
+    switch (goal.type) {
+      case 'victory':
+        return 'Defend the village';
+      case 'power_margin':
+        return `Win with ${goal.amount} power to spare`;
+      case 'buildings_constructed':
+        return `Construct ${goal.amount} buildings`;
+      default:
+        return goal.type;
+    }
+  }
+
+  /**
+   * Record the result of a finished run and persist the progress
+   * @param level The level that was played
+   * @param result The result of the battle
+   * @param allLevels All levels of the campaign, used to detect newly unlocked levels
+   */
+  public recordResult(level: LevelConfig, result: BattleResult, allLevels: LevelConfig[]): CampaignResult {
+    const lockedBefore = allLevels.filter(other => !this.isLevelUnlocked(other)).map(other => other.id);
+
+    const goalsReached = this.evaluateStarGoals(level, result);
+    const stars = goalsReached.filter(reached => reached).length;
+    const previous = this.getLevelProgress(level.id);
+
+    this.progress[level.id] = {
+      completed: previous.completed || result.outcome === BattleOutcome.VICTORY,
+      stars: Math.max(previous.stars, stars)
+    };
+    StorageService.save(CampaignService.PROGRESS_KEY, this.progress);
+
+    const newlyUnlockedLevelIds = allLevels
+      .filter(other => lockedBefore.includes(other.id) && this.isLevelUnlocked(other))
+      .map(other => other.id);
+
+    return {
+      goalsReached,
+      stars,
+      bestStars: this.progress[level.id].stars,
+      newlyUnlockedLevelIds
+    };
+  }
+}
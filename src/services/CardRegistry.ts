@@ -1,4 +1,4 @@
-import { Card, CardConfig, convertCardJsonToConfig } from '../entities/Card';
+import { Card, CardConfig, CardState, convertCardJsonToConfig } from '../entities/Card';
 
 /**
  * Global registry for card configurations and instances
@@ -62,6 +62,21 @@ export class CardRegistry {
     return Card.fromConfig(config);
   }
   
+  /**
+   * Restore a Card instance from its saved state
+   * @param state The saved card state
+   * @returns The restored Card instance or null if card ID not found
+   */
+  public createCardFromState(state: CardState): Card | null {
+    const config = this._cardConfigs.get(state.id);
+    if (!config) {
+      console.error(`Card not found in registry: ${state.id}`);
+      return null;
+    }
+    
+    return Card.fromState(config, state);
+  }
+  
   /**
    * Create a simplified card instance from a card ID
    * This is used by services that expect the card properties directly
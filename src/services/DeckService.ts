@@ -39,6 +39,8 @@ export class DeckService<T extends Card = Card> {
 
     // Listen for building construction events
     this.buildingService.on(BuildingServiceEvents.BUILDING_CONSTRUCTED, this.handleBuildingConstructed, this);
+    this.buildingService.on(BuildingServiceEvents.BUILDING_UPGRADED, this.handleBuildingUpgraded, this);
+    this.buildingService.on(BuildingServiceEvents.BUILDING_DEMOLISHED, this.handleBuildingDemolished, this);
   }
 
   /**
@@ -55,6 +57,33 @@ export class DeckService<T extends Card = Card> {
     }
   }
 
+  /**
+   * Handle building upgrade events, the deck limit of the new tier replaces the one of the previous tier
+   * @param buildingId The ID of the new tier
+   * @param slotUniqueId The unique ID of the slot of the upgraded building
+   * @param previousBuildingId The ID of the replaced tier
+   */
+  private handleBuildingUpgraded(buildingId: string, slotUniqueId: string, previousBuildingId: string): void {
+    const getDeckLimitIncrease = (id: string) => this.buildingService.getBuildingConfig(id).effects
+      .find(effect => effect.type === 'increase_deck_limit')?.amount || 0;
+
+    this.increaseDeckLimit(getDeckLimitIncrease(buildingId) - getDeckLimitIncrease(previousBuildingId));
+  }
+
+  /**
+   * Handle building demolition events, taking back the deck limit the building provided
+   * The BuildingService refuses to demolish a building while the deck has more cards than the lowered limit
+   * @param buildingId The ID of the demolished building
+   */
+  private handleBuildingDemolished(buildingId: string): void {
+    const building = this.buildingService.getBuildingConfig(buildingId);
+    
+    const deckLimitEffect = building.effects?.find(effect => effect.type === 'increase_deck_limit');
+    if (deckLimitEffect) {
+      this.increaseDeckLimit(-deckLimitEffect.amount);
+    }
+  }
+
   /**
    * Increase the deck limit by the specified amount
    * @param amount The amount to increase the deck limit by
@@ -198,4 +227,16 @@ export class DeckService<T extends Card = Card> {
   getDiscardPile(): T[] {
     return [...this.discardPile];
   }
+
+  /**
+   * Replace the deck, discard pile and deck limit with restored values
+   * @param deck Cards in the deck, in draw order
+   * @param discardPile Cards in the discard pile
+   * @param deckLimit Maximum number of cards allowed in the deck
+   */
+  restoreState(deck: T[], discardPile: T[], deckLimit: number): void {
+    this.deck = [...deck];
+    this.discardPile = [...discardPile];
+    this._deckLimit = deckLimit;
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { Card } from '../entities/Card';
+
+/**
+ * Data-driven effect that can come from buildings, adventures or stickers
+ */
+export interface GameEffect {
+  type: string;
+  [key: string]: any;
+}
+
+/**
+ * What caused an effect, for handlers acting upon it
+ */
+export interface EffectContext {
+  cards?: Card[]; // Cards that took part, e.g. the party of an adventure or the card of a sticker
+}
+
+/**
+ * Function that applies a game effect
+ */
+export type EffectHandler = (effect: GameEffect, context: EffectContext) => void;
+
+/**
+ * Routes data-driven effects to the handlers registered for their type
+ */
+export class EffectDispatcher {
+  private handlers: Map<string, EffectHandler> = new Map();
+
+  /**
+   * Register the handler for an effect type, replacing any existing one
+   * @param type The effect type, as used in the config files
+   * @param handler Function that applies the effect
+   */
+  public registerHandler(type: string, handler: EffectHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Check if there is a handler for an effect type
+   * @param type The effect type
+   */
+  public hasHandler(type: string): boolean {
+    return this.handlers.has(type);
+  }
+
+  /**
+   * Apply an effect using the handler registered for its type
+   * @param effect The effect to apply
+   * @param context What caused the effect
+   * @returns True if the effect was handled, false if no handler is registered for its type
+   */
+  public dispatch(effect: GameEffect, context: EffectContext = {}): boolean {
+    const handler = this.handlers.get(effect.type);
+    if (!handler) {
+      return false;
+    }
+
+    handler(effect, context);
+    return true;
+  }
+
+  /**
+   * Apply all effects that have a registered handler
+   * @param effects The effects to apply
+   * @param context What caused the effects
+   */
+  public dispatchAll(effects: GameEffect[], context: EffectContext = {}): void {
+    effects.forEach(effect => this.dispatch(effect, context));
+  }
+}
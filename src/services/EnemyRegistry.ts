@@ -0,0 +1,102 @@
+import { EnemyConfig, EnemyTrait, WaveEnemy, convertEnemyJsonToConfig } from '../entities/Enemy';
+import { InvasionWaveConfig } from '../entities/Level';
+
+/**
+ * Global registry for enemy configurations
+ */
+export class EnemyRegistry {
+  private static _instance: EnemyRegistry;
+  private _enemyConfigs: Map<string, EnemyConfig> = new Map();
+  
+  private constructor() {}
+  
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): EnemyRegistry {
+    if (!this._instance) {
+      this._instance = new EnemyRegistry();
+    }
+    return this._instance;
+  }
+  
+  /**
+   * Load enemy configurations from JSON array
+   * @param enemiesJson Array of enemy configurations from JSON
+   */
+  public loadEnemies(enemiesJson: any[]): void {
+    enemiesJson.forEach(enemyJson => {
+      const config = convertEnemyJsonToConfig(enemyJson);
+      this._enemyConfigs.set(config.id, config);
+    });
+  }
+  
+  /**
+   * Get enemy configuration by ID
+   * @param enemyId The enemy ID
+   * @returns The enemy configuration or undefined if not found
+   */
+  public getEnemyConfig(enemyId: string): EnemyConfig | undefined {
+    return this._enemyConfigs.get(enemyId);
+  }
+  
+  /**
+   * Get all available enemy configurations
+   * @returns Array of all enemy configurations
+   */
+  public getAllEnemyConfigs(): EnemyConfig[] {
+    return Array.from(this._enemyConfigs.values());
+  }
+  
+  /**
+   * Calculate the combined strength of a group of enemies
+   * @param enemies The enemies and how many of each there are
+   */
+  public calculateStrength(enemies: WaveEnemy[]): number {
+    return enemies.reduce((total, entry) => {
+      const enemy = this._enemyConfigs.get(entry.enemyId);
+      if (!enemy) {
+        console.error(`Enemy not found in registry: ${entry.enemyId}`);
+        return total;
+      }
+      return total + enemy.strength * entry.count;
+    }, 0);
+  }
+  
+  /**
+   * Calculate the total strength of an invasion wave
+   * @param wave The invasion wave
+   */
+  public calculateWaveStrength(wave: InvasionWaveConfig): number {
+    return wave.strength + this.calculateStrength(wave.enemies);
+  }
+  
+  /**
+   * Get the distinct traits of a group of enemies
+   * The same trait of several enemies applies only once
+   * @param enemies The enemies and how many of each there are
+   */
+  public getTraits(enemies: WaveEnemy[]): EnemyTrait[] {
+    const traits = new Map<string, EnemyTrait>();
+    
+    enemies.forEach(entry => {
+      const enemy = this._enemyConfigs.get(entry.enemyId);
+      enemy?.traits.forEach(trait => {
+        const key = `${trait.type}:${trait.buildingId}`;
+        const existing = traits.get(key);
+        if (!existing || (trait.multiplier || 1) > (existing.multiplier || 1)) {
+          traits.set(key, trait);
+        }
+      });
+    });
+    
+    return Array.from(traits.values());
+  }
+  
+  /**
+   * Clear the enemy registry
+   */
+  public clear(): void {
+    this._enemyConfigs.clear();
+  }
+}
@@ -0,0 +1,54 @@
+import { ExpeditionConfig, convertExpeditionJsonToConfig } from '../entities/Expedition';
+
+/**
+ * Global registry for the expeditions available in the tavern
+ */
+export class ExpeditionRegistry {
+  private static _instance: ExpeditionRegistry;
+  private _expeditionConfigs: Map<string, ExpeditionConfig> = new Map();
+  
+  private constructor() {}
+  
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): ExpeditionRegistry {
+    if (!this._instance) {
+      this._instance = new ExpeditionRegistry();
+    }
+    return this._instance;
+  }
+  
+  /**
+   * Load expedition configurations from JSON array
+   * @param expeditionsJson Array of expedition configurations from JSON
+   */
+  public loadExpeditions(expeditionsJson: any[]): void {
+    expeditionsJson.forEach(expeditionJson => {
+      const config = convertExpeditionJsonToConfig(expeditionJson);
+      this._expeditionConfigs.set(config.id, config);
+    });
+  }
+  
+  /**
+   * Get an expedition configuration by ID
+   * @param expeditionId The expedition ID
+   */
+  public getExpeditionConfig(expeditionId: string): ExpeditionConfig | undefined {
+    return this._expeditionConfigs.get(expeditionId);
+  }
+  
+  /**
+   * Get all available expedition configurations
+   */
+  public getAllExpeditionConfigs(): ExpeditionConfig[] {
+    return Array.from(this._expeditionConfigs.values());
+  }
+  
+  /**
+   * Clear all registered expeditions
+   */
+  public clear(): void {
+    this._expeditionConfigs.clear();
+  }
+}
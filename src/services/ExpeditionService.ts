@@ -0,0 +1,271 @@
+import Phaser from 'phaser';
+import { Card, CardState } from '../entities/Card';
+import { ExpeditionConfig } from '../entities/Expedition';
+import { PlayerHand } from '../entities/PlayerHand';
+import { ResourceType } from '../entities/Types';
+import { CardRegistry } from './CardRegistry';
+import { DeckService } from './DeckService';
+import { EffectDispatcher } from './EffectDispatcher';
+import { ExpeditionRegistry } from './ExpeditionRegistry';
+import { InvasionService, InvasionServiceEvents } from './InvasionService';
+
+/**
+ * Events emitted by the ExpeditionService
+ */
+export enum ExpeditionServiceEvents {
+  EXPEDITIONS_CHANGED = 'expeditions-changed',
+  EXPEDITION_RETURNED = 'expedition-returned'
+}
+
+/**
+ * Group of cards away from the village
+ * Injured cards of a failed expedition stay away as a separate group to recover
+ */
+export interface ActiveExpedition {
+  expeditionId: string;
+  cards: Card[];
+  daysLeft: number;
+  recovering: boolean;
+}
+
+/**
+ * Outcome of an expedition, emitted when its cards return
+ */
+export interface ExpeditionResult {
+  expedition: ExpeditionConfig;
+  success: boolean;
+  power: number;
+  returnedCards: Card[];
+  injuredCards: Card[];
+}
+
+/**
+ * Serializable state of the expeditions, used for saving and restoring a run
+ */
+export interface ExpeditionState {
+  expeditions: Array<{
+    expeditionId: string;
+    cards: CardState[];
+    daysLeft: number;
+    recovering: boolean;
+  }>;
+}
+
+/**
+ * Service managing the cards sent from the hand on expeditions
+ * Cards on an expedition are out of the hand, deck and discard pile until they return
+ * to the discard pile at the end of a day
+ */
+export class ExpeditionService extends Phaser.Events.EventEmitter {
+  private playerHand: PlayerHand;
+  private deckService: DeckService<Card>;
+  private invasionService: InvasionService;
+  private effectDispatcher: EffectDispatcher;
+  private activeExpeditions: ActiveExpedition[] = [];
+
+  /**
+   * Create a new ExpeditionService
+   * @param playerHand The hand the cards are sent from
+   * @param deckService The deck whose discard pile the cards return to
+   * @param invasionService Service tracking the days, expeditions progress every day
+   * @param effectDispatcher Dispatcher applying the effects of finished expeditions
+   */
+  constructor(
+    playerHand: PlayerHand,
+    deckService: DeckService<Card>,
+    invasionService: InvasionService,
+    effectDispatcher: EffectDispatcher
+  ) {
+    super();
+    this.playerHand = playerHand;
+    this.deckService = deckService;
+    this.invasionService = invasionService;
+    this.effectDispatcher = effectDispatcher;
+
+    this.invasionService.on(InvasionServiceEvents.INVASION_PROGRESSED, this.onDayPassed, this);
+  }
+
+  /**
+   * Get the groups of cards currently away
+   */
+  public getActiveExpeditions(): ActiveExpedition[] {
+    return this.activeExpeditions.map(expedition => ({ ...expedition, cards: [...expedition.cards] }));
+  }
+
+  /**
+   * Get all cards currently away on expeditions
+   */
+  public getAbsentCards(): Card[] {
+    return this.activeExpeditions.flatMap(expedition => expedition.cards);
+  }
+
+  /**
+   * Get the total power of a group of cards
+   * @param cards The cards to sum up
+   */
+  public getPower(cards: Card[]): number {
+    return cards.reduce((sum, card) => sum + card.getResourceValue(ResourceType.Power), 0);
+  }
+
+  /**
+   * Get the power the village can put against the invasion, without the cards that are away
+   */
+  public getVillagePower(): number {
+    return this.playerHand.calculateTotalPower();
+  }
+
+  /**
+   * Get the number of days until the upcoming wave of the invasion arrives
+   * Cards returning on the day of the arrival take part in the battle
+   */
+  public getDaysUntilInvasion(): number {
+    return this.invasionService.getDaysUntilArrival();
+  }
+
+  /**
+   * Check if cards from the hand can be sent on an expedition
+   * @param expedition The expedition to check
+   * @param uniqueIds The unique_ids of the cards to send
+   */
+  public canStartExpedition(expedition: ExpeditionConfig, uniqueIds: string[]): boolean {
+    const handIds = this.playerHand.getCards().map(card => card.unique_id);
+    return uniqueIds.length >= expedition.minCards &&
+      uniqueIds.length <= expedition.maxCards &&
+      uniqueIds.every(uniqueId => handIds.includes(uniqueId));
+  }
+
+  /**
+   * Send cards from the hand on an expedition
+   * @param expeditionId The expedition ID
+   * @param uniqueIds The unique_ids of the cards to send
+   * @returns True if the cards were sent, false otherwise
+   */
+  public startExpedition(expeditionId: string, uniqueIds: string[]): boolean {
+    const expedition = ExpeditionRegistry.getInstance().getExpeditionConfig(expeditionId);
+    if (!expedition) {
+      throw new Error(`Expedition not found in registry: ${expeditionId}`);
+    }
+
+    if (!this.canStartExpedition(expedition, uniqueIds)) {
+      return false;
+    }
+
+    const cards = this.playerHand.removeCardsByUniqueIds(uniqueIds);
+    this.activeExpeditions.push({
+      expeditionId,
+      cards,
+      daysLeft: expedition.days,
+      recovering: false
+    });
+
+    this.emit(ExpeditionServiceEvents.EXPEDITIONS_CHANGED, this.getActiveExpeditions());
+    return true;
+  }
+
+  /**
+   * Progress all expeditions by a day and resolve the ones whose cards return
+   * The statuses of the cards away count down as well, the PlayerHand only counts down the cards of the village
+   */
+  private onDayPassed(): void {
+    if (this.activeExpeditions.length === 0) return;
+
+    this.getAbsentCards().forEach(card => card.tickStatuses());
+    this.activeExpeditions.forEach(expedition => expedition.daysLeft--);
+
+    const finished = this.activeExpeditions.filter(expedition => expedition.daysLeft <= 0);
+    this.activeExpeditions = this.activeExpeditions.filter(expedition => expedition.daysLeft > 0);
+
+    finished.forEach(expedition => {
+      if (expedition.recovering) {
+        this.returnCards(expedition.cards);
+      } else {
+        this.resolveExpedition(expedition);
+      }
+    });
+
+    this.emit(ExpeditionServiceEvents.EXPEDITIONS_CHANGED, this.getActiveExpeditions());
+  }
+
+  /**
+   * Apply the outcome of an expedition whose cards came back
+   * @param activeExpedition The finished expedition
+   */
+  private resolveExpedition(activeExpedition: ActiveExpedition): void {
+    const expedition = ExpeditionRegistry.getInstance().getExpeditionConfig(activeExpedition.expeditionId);
+    if (!expedition) {
+      throw new Error(`Expedition not found in registry: ${activeExpedition.expeditionId}`);
+    }
+
+    const power = this.getPower(activeExpedition.cards);
+    const success = power >= expedition.requiredPower;
+    const injuredCards = success
+      ? []
+      : activeExpedition.cards.filter(() => Math.random() < expedition.injuryChance);
+    const returnedCards = activeExpedition.cards.filter(card => !injuredCards.includes(card));
+
+    this.returnCards(returnedCards);
+    if (injuredCards.length > 0) {
+      this.activeExpeditions.push({
+        expeditionId: expedition.id,
+        cards: injuredCards,
+        daysLeft: expedition.injuryDays,
+        recovering: true
+      });
+    }
+
+    this.effectDispatcher.dispatchAll(
+      success ? expedition.successEffects : expedition.failureEffects,
+      { cards: activeExpedition.cards }
+    );
+
+    const result: ExpeditionResult = { expedition, success, power, returnedCards, injuredCards };
+    this.emit(ExpeditionServiceEvents.EXPEDITION_RETURNED, result);
+  }
+
+  /**
+   * Put returning cards into the discard pile
+   * @param cards The returning cards
+   */
+  private returnCards(cards: Card[]): void {
+    cards.forEach(card => this.deckService.discard(card));
+  }
+
+  /**
+   * Get the serializable state of the expeditions
+   */
+  public getState(): ExpeditionState {
+    return {
+      expeditions: this.activeExpeditions.map(expedition => ({
+        expeditionId: expedition.expeditionId,
+        cards: expedition.cards.map(card => card.getState()),
+        daysLeft: expedition.daysLeft,
+        recovering: expedition.recovering
+      }))
+    };
+  }
+
+  /**
+   * Restore the expeditions from a saved state
+   * @param state The saved expedition state
+   */
+  public restoreState(state: ExpeditionState): void {
+    const cardRegistry = CardRegistry.getInstance();
+    this.activeExpeditions = state.expeditions.map(expedition => ({
+      expeditionId: expedition.expeditionId,
+      cards: expedition.cards
+        .map(cardState => cardRegistry.createCardFromState(cardState))
+        .filter((card): card is Card => card !== null),
+      daysLeft: expedition.daysLeft,
+      recovering: expedition.recovering
+    }));
+    this.emit(ExpeditionServiceEvents.EXPEDITIONS_CHANGED, this.getActiveExpeditions());
+  }
+
+  /**
+   * Clean up event listeners
+   */
+  public destroy(): void {
+    this.invasionService.off(InvasionServiceEvents.INVASION_PROGRESSED, this.onDayPassed, this);
+    this.removeAllListeners();
+  }
+}
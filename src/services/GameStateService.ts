@@ -0,0 +1,255 @@
+import { Card, CardState, CardEvents } from '../entities/Card';
+import { PlayerHand } from '../entities/PlayerHand';
+import { BuildingService, BuildingServiceEvents, BuildingServiceState } from './BuildingService';
+import { CardRegistry } from './CardRegistry';
+import { DeckService } from './DeckService';
+import { ExpeditionService, ExpeditionServiceEvents, ExpeditionState } from './ExpeditionService';
+import { InvasionService, InvasionState } from './InvasionService';
+import { ResourceService, ResourceServiceEvents, ResourceState } from './ResourceService';
+import { StickerInventoryEvents, StickerInventoryService, StickerInventoryState } from './StickerInventoryService';
+import { StorageService } from './StorageService';
+
+/**
+ * Complete serializable state of a run in progress
+ */
+export interface SavedGameState {
+  levelId: string;
+  hand: CardState[];
+  deck: CardState[];
+  discardPile: CardState[];
+  deckLimit: number;
+  buildings: BuildingServiceState;
+  resources: ResourceState;
+  invasion: InvasionState;
+  stickerInventory?: StickerInventoryState;
+  expeditions?: ExpeditionState;
+}
+
+/**
+ * Service for saving the current run to localStorage and restoring it later
+ */
+export class GameStateService {
+  private static readonly SAVE_KEY = 'saved_game';
+
+  private levelId: string;
+  private playerHand: PlayerHand;
+  private deckService: DeckService<Card>;
+  private buildingService: BuildingService;
+  private resourceService: ResourceService;
+  private invasionService: InvasionService;
+  private stickerInventoryService: StickerInventoryService;
+  private expeditionService: ExpeditionService;
+  private cardRegistry: CardRegistry;
+  private autosaveEnabled: boolean = false;
+  private trackedCards: Card[] = [];
+
+  /**
+   * Create a new GameStateService
+   * @param levelId ID of the level being played
+   * @param playerHand The player's hand
+   * @param deckService The player's deck
+   * @param buildingService Service for managing buildings
+   * @param resourceService Service for managing resources
+   * @param invasionService Service tracking the invasion
+   * @param stickerInventoryService Service managing the sticker shop offer
+   * @param expeditionService Service managing the cards away on expeditions
+   * @param cardRegistry Registry used to recreate saved cards
+   */
+  constructor(
+    levelId: string,
+    playerHand: PlayerHand,
+    deckService: DeckService<Card>,
+    buildingService: BuildingService,
+    resourceService: ResourceService,
+    invasionService: InvasionService,
+    stickerInventoryService: StickerInventoryService,
+    expeditionService: ExpeditionService,
+    cardRegistry: CardRegistry
+  ) {
+    this.levelId = levelId;
+    this.playerHand = playerHand;
+    this.deckService = deckService;
+    this.buildingService = buildingService;
+    this.resourceService = resourceService;
+    this.invasionService = invasionService;
+    this.stickerInventoryService = stickerInventoryService;
+    this.expeditionService = expeditionService;
+    this.cardRegistry = cardRegistry;
+  }
+
+  /**
+   * Check if there is a saved run that can be continued
+   */
+  public static hasSavedGame(): boolean {
+    return StorageService.exists(this.SAVE_KEY);
+  }
+
+  /**
+   * Load the saved run
+   * @returns The saved state or null if there is none
+   */
+  public static loadSavedGame(): SavedGameState | null {
+    return StorageService.load<SavedGameState | null>(this.SAVE_KEY, null);
+  }
+
+  /**
+   * Remove the saved run
+   */
+  public static clearSavedGame(): void {
+    StorageService.remove(this.SAVE_KEY);
+  }
+
+  /**
+   * Build the serializable state of the current run
+   */
+  public getState(): SavedGameState {
+    return {
+      levelId: this.levelId,
+      hand: this.playerHand.getCards().map(card => card.getState()),
+      deck: this.deckService.getDeck().map(card => card.getState()),
+      discardPile: this.deckService.getDiscardPile().map(card => card.getState()),
+      deckLimit: this.deckService.deckLimit(),
+      buildings: this.buildingService.getState(),
+      resources: this.resourceService.getState(),
+      invasion: this.invasionService.getState(),
+      stickerInventory: this.stickerInventoryService.getState(),
+      expeditions: this.expeditionService.getState()
+    };
+  }
+
+  /**
+   * Save the current run to localStorage
+   */
+  public save(): void {
+    StorageService.save(GameStateService.SAVE_KEY, this.getState());
+  }
+
+  /**
+   * Restore a saved run into the services of the current game
+   * @param state The saved state to restore
+   */
+  public restore(state: SavedGameState): void {
+    if (state.levelId !== this.levelId) {
+      throw new Error(`Saved game is for level ${state.levelId}, not ${this.levelId}`);
+    }
+
+    // Buildings go first, since dependent services react to construction events (e.g. deck limit)
+    this.buildingService.restoreState(state.buildings);
+
+    this.deckService.restoreState(
+      this.createCards(state.deck),
+      this.createCards(state.discardPile),
+      state.deckLimit
+    );
+    this.playerHand.restoreCards(this.createCards(state.hand));
+
+    this.resourceService.restoreState(state.resources);
+    this.invasionService.restoreState(state.invasion);
+
+    // Saves from before the shop inventory keep the freshly drawn offer
+    if (state.stickerInventory) {
+      this.stickerInventoryService.restoreState(state.stickerInventory);
+    }
+
+    if (state.expeditions) {
+      this.expeditionService.restoreState(state.expeditions);
+    }
+  }
+
+  /**
+   * Save the run automatically whenever the game state changes
+   */
+  public enableAutosave(): void {
+    if (this.autosaveEnabled) return;
+    this.autosaveEnabled = true;
+
+    this.playerHand.on(PlayerHand.Events.CARDS_CHANGED, this.onCardsChanged, this);
+    this.resourceService.on(ResourceServiceEvents.RESOURCE_CHANGED, this.save, this);
+    this.buildingService.on(BuildingServiceEvents.BUILDING_CONSTRUCTED, this.save, this);
+    this.buildingService.on(BuildingServiceEvents.BUILDING_UPGRADED, this.save, this);
+    this.buildingService.on(BuildingServiceEvents.BUILDING_DEMOLISHED, this.save, this);
+    this.buildingService.on(BuildingServiceEvents.PROJECT_PROGRESSED, this.save, this);
+    this.stickerInventoryService.on(StickerInventoryEvents.OFFER_CHANGED, this.save, this);
+    this.expeditionService.on(ExpeditionServiceEvents.EXPEDITIONS_CHANGED, this.save, this);
+    window.addEventListener('beforeunload', this.onBeforeUnload);
+
+    this.trackCards();
+    this.save();
+  }
+
+  /**
+   * Stop saving the run automatically
+   */
+  public disableAutosave(): void {
+    if (!this.autosaveEnabled) return;
+    this.autosaveEnabled = false;
+
+    this.playerHand.off(PlayerHand.Events.CARDS_CHANGED, this.onCardsChanged, this);
+    this.resourceService.off(ResourceServiceEvents.RESOURCE_CHANGED, this.save, this);
+    this.buildingService.off(BuildingServiceEvents.BUILDING_CONSTRUCTED, this.save, this);
+    this.buildingService.off(BuildingServiceEvents.BUILDING_UPGRADED, this.save, this);
+    this.buildingService.off(BuildingServiceEvents.BUILDING_DEMOLISHED, this.save, this);
+    this.buildingService.off(BuildingServiceEvents.PROJECT_PROGRESSED, this.save, this);
+    this.stickerInventoryService.off(StickerInventoryEvents.OFFER_CHANGED, this.save, this);
+    this.expeditionService.off(ExpeditionServiceEvents.EXPEDITIONS_CHANGED, this.save, this);
+    window.removeEventListener('beforeunload', this.onBeforeUnload);
+
+    this.trackCards();
+  }
+
+  /**
+   * Handler for when the cards in hand change
+   */
+  private onCardsChanged(): void {
+    this.trackCards();
+    this.save();
+  }
+
+  /**
+   * Subscribe to sticker changes of all the player's cards
+   * Stickers can be applied to cards in the hand, deck or discard pile
+   */
+  private trackCards(): void {
+    this.trackedCards.forEach(card => {
+      card.off(CardEvents.STICKER_APPLIED, this.save, this);
+      card.off(CardEvents.STICKER_PEELED, this.save, this);
+      card.off(CardEvents.SLOT_ADDED, this.save, this);
+      card.off(CardEvents.STATUS_CHANGED, this.save, this);
+    });
+    this.trackedCards = this.autosaveEnabled ? this.getAllCards() : [];
+    this.trackedCards.forEach(card => {
+      card.on(CardEvents.STICKER_APPLIED, this.save, this);
+      card.on(CardEvents.STICKER_PEELED, this.save, this);
+      card.on(CardEvents.SLOT_ADDED, this.save, this);
+      card.on(CardEvents.STATUS_CHANGED, this.save, this);
+    });
+  }
+
+  /**
+   * Get all the player's cards across the hand, deck and discard pile
+   */
+  private getAllCards(): Card[] {
+    return [
+      ...this.playerHand.getCards(),
+      ...this.deckService.getDeck(),
+      ...this.deckService.getDiscardPile()
+    ];
+  }
+
+  /**
+   * Save the run right before the page is closed or reloaded
+   */
+  private onBeforeUnload = (): void => {
+    this.save();
+  };
+
+  /**
+   * Recreate card instances from their saved states
+   * @param states Saved card states
+   */
+  private createCards(states: CardState[]): Card[] {
+    return states
+      .map(state => this.cardRegistry.createCardFromState(state))
+      .filter((card): card is Card => card !== null);
+  }
+}
@@ -1,26 +1,51 @@
+import Phaser from 'phaser';
+import { EnemyTrait, WaveEnemy } from '../entities/Enemy';
+import { InvasionWaveConfig } from '../entities/Level';
 import { AnalyticsService } from './AnalyticsService';
+import { EnemyRegistry } from './EnemyRegistry';
+
+/**
+ * Events emitted by the InvasionService
+ */
+export enum InvasionServiceEvents {
+  INVASION_PROGRESSED = 'invasion-progressed',
+  INVASION_DELAYED = 'invasion-delayed',
+  WAVE_STARTED = 'wave-started'
+}
+
+/**
+ * Serializable state of the invasion, used for saving and restoring a run
+ */
+export interface InvasionState {
+  currentDistance: number;
+  currentDay: number;
+  currentWaveIndex?: number;
+}
 
 /**
  * Service responsible for tracking and progressing the invasion
+ * The invasion consists of waves that march on the village one after another
  */
-export class InvasionService {
-  private invasionDistance: number;
-  private invasionSpeedPerTurn: number;
-  private invasionDifficulty: number = 0;
+export class InvasionService extends Phaser.Events.EventEmitter {
+  // Maximum number of days simulated when forecasting the arrival of a wave
+  private static readonly MAX_FORECAST_DAYS = 365;
+  
+  private waves: InvasionWaveConfig[];
+  private currentWaveIndex: number = 0;
   private currentDistance: number;
   private currentDay: number = 1;
   
   /**
    * Create a new invasion service
-   * @param initialDistance Initial distance of the invasion from village
-   * @param speedPerTurn How much distance is reduced each turn
-   * @param difficulty Optional difficulty level of the invasion (affects enemy strength)
+   * @param waves The waves of the invasion in the order they march on the village
    */
-  constructor(initialDistance: number, speedPerTurn: number, difficulty: number = 0) {
-    this.invasionDistance = initialDistance;
-    this.invasionSpeedPerTurn = speedPerTurn;
-    this.invasionDifficulty = difficulty;
-    this.currentDistance = initialDistance;
+  constructor(waves: InvasionWaveConfig[]) {
+    super();
+    if (waves.length === 0) {
+      throw new Error('The invasion needs at least one wave');
+    }
+    this.waves = waves;
+    this.currentDistance = waves[0].distance;
   }
   
   /**
@@ -28,10 +53,10 @@ export class InvasionService {
    * @returns The new current distance
    */
   public progressInvasion(): number {
-    this.currentDistance -= this.invasionSpeedPerTurn;
+    this.currentDistance -= this.getSpeedOnDay(this.currentDay);
     this.currentDay += 1;
     
-    console.log(`Invasion progress: ${this.currentDistance} days remaining`);
+    console.log(`Invasion progress: ${this.currentDistance} distance remaining`);
 
     // Ensure distance doesn't go below zero
     if (this.currentDistance < 0) {
@@ -41,9 +66,63 @@ export class InvasionService {
     // Track this in analytics
     AnalyticsService.trackInvasionProgress(this.currentDistance, this.currentDay);
     
+    this.emit(InvasionServiceEvents.INVASION_PROGRESSED, this.currentDistance, this.currentDay);
+    
     return this.currentDistance;
   }
   
+  /**
+   * Get the wave that is currently marching on the village
+   */
+  public getUpcomingWave(): InvasionWaveConfig {
+    return this.waves[this.currentWaveIndex];
+  }
+  
+  /**
+   * Get the index of the wave that is currently marching on the village
+   */
+  public getCurrentWaveIndex(): number {
+    return this.currentWaveIndex;
+  }
+  
+  /**
+   * Get the total number of waves of the invasion
+   */
+  public getWaveCount(): number {
+    return this.waves.length;
+  }
+  
+  /**
+   * Check if the upcoming wave is the last one of the invasion
+   */
+  public isLastWave(): boolean {
+    return this.currentWaveIndex >= this.waves.length - 1;
+  }
+  
+  /**
+   * Start the march of the next wave after the upcoming wave was repelled
+   * @returns False if there is no next wave
+   */
+  public startNextWave(): boolean {
+    if (this.isLastWave()) {
+      return false;
+    }
+    
+    this.currentWaveIndex += 1;
+    this.currentDistance = this.getUpcomingWave().distance;
+    
+    this.emit(InvasionServiceEvents.WAVE_STARTED, this.getUpcomingWave(), this.currentWaveIndex);
+    
+    return true;
+  }
+  
+  /**
+   * Get the distance the upcoming wave starts at
+   */
+  public getInitialDistance(): number {
+    return this.getUpcomingWave().distance;
+  }
+  
   /**
    * Get the current distance remaining
    */
@@ -59,10 +138,85 @@ export class InvasionService {
   }
   
   /**
-   * Get the difficulty level of the invasion
+   * Get the strength of the upcoming wave, including the strength of all its enemies
    */
   public getDifficulty(): number {
-    return this.invasionDifficulty;
+    return EnemyRegistry.getInstance().calculateWaveStrength(this.getUpcomingWave());
+  }
+  
+  /**
+   * Get the enemies of the upcoming wave
+   */
+  public getUpcomingEnemies(): WaveEnemy[] {
+    return this.getUpcomingWave().enemies;
+  }
+  
+  /**
+   * Get the traits of the enemies of the upcoming wave
+   */
+  public getUpcomingEnemyTraits(): EnemyTrait[] {
+    return EnemyRegistry.getInstance().getTraits(this.getUpcomingWave().enemies);
+  }
+  
+  /**
+   * Get how much distance the upcoming wave covers today
+   */
+  public getSpeedPerTurn(): number {
+    return this.getSpeedOnDay(this.currentDay);
+  }
+  
+  /**
+   * Get how much distance the upcoming wave covers at the end of a given day
+   * @param day The day to get the speed for
+   */
+  public getSpeedOnDay(day: number): number {
+    const wave = this.getUpcomingWave();
+    let speed = wave.speedPerTurn;
+    
+    for (const change of wave.speedChanges) {
+      if (change.fromDay <= day) {
+        speed = change.speedPerTurn;
+      }
+    }
+    
+    return speed;
+  }
+  
+  /**
+   * Forecast the remaining distance of the upcoming wave at the end of each day until it arrives
+   * @returns Remaining distances, one per day, the last one being 0 when the wave arrives
+   */
+  public getForecastDistances(): number[] {
+    const distances: number[] = [];
+    let distance = this.currentDistance;
+    let day = this.currentDay;
+    
+    while (distance > 0 && distances.length < InvasionService.MAX_FORECAST_DAYS) {
+      distance = Math.max(distance - this.getSpeedOnDay(day), 0);
+      day += 1;
+      distances.push(distance);
+    }
+    
+    return distances;
+  }
+  
+  /**
+   * Forecast how many more days it takes the upcoming wave to arrive
+   * @returns The number of days or Infinity if the wave does not arrive in the foreseeable future
+   */
+  public getDaysUntilArrival(): number {
+    const distances = this.getForecastDistances();
+    if (this.currentDistance > 0 && distances[distances.length - 1] !== 0) {
+      return Infinity;
+    }
+    return distances.length;
+  }
+  
+  /**
+   * Forecast the day the upcoming wave arrives on
+   */
+  public getForecastArrivalDay(): number {
+    return this.currentDay + this.getDaysUntilArrival();
   }
   
   /**
@@ -70,18 +224,53 @@ export class InvasionService {
    * @param amount Amount to delay invasion by
    */
   public delayInvasion(amount: number): void {
+    const previousDistance = this.currentDistance;
     this.currentDistance += amount;
     
-    // Cap at initial distance
-    if (this.currentDistance > this.invasionDistance) {
-      this.currentDistance = this.invasionDistance;
+    // Cap at initial distance of the wave
+    if (this.currentDistance > this.getInitialDistance()) {
+      this.currentDistance = this.getInitialDistance();
+    }
+    
+    const delayedBy = this.currentDistance - previousDistance;
+    if (delayedBy > 0) {
+      this.emit(InvasionServiceEvents.INVASION_DELAYED, delayedBy, this.currentDistance);
     }
   }
   
   /**
-   * Check if the invasion has arrived (distance = 0)
+   * Delay the invasion by a number of days at the current speed
+   * @param days Number of days to delay the invasion by
+   */
+  public delayInvasionByDays(days: number): void {
+    this.delayInvasion(days * this.getSpeedPerTurn());
+  }
+  
+  /**
+   * Check if the upcoming wave has arrived (distance = 0)
    */
   public hasInvasionArrived(): boolean {
     return this.currentDistance <= 0;
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Get the serializable state of the invasion
+   */
+  public getState(): InvasionState {
+    return {
+      currentDistance: this.currentDistance,
+      currentDay: this.currentDay,
+      currentWaveIndex: this.currentWaveIndex
+    };
+  }
+  
+  /**
+   * Restore the invasion progress from a saved state
+   * @param state The saved invasion state
+   */
+  public restoreState(state: InvasionState): void {
+    this.currentWaveIndex = Phaser.Math.Clamp(state.currentWaveIndex || 0, 0, this.waves.length - 1);
+    this.currentDistance = state.currentDistance;
+    this.currentDay = state.currentDay;
+  }
+}
@@ -0,0 +1,57 @@
+import { LevelConfig, convertLevelJsonToConfig } from '../entities/Level';
+
+/**
+ * Global registry for level configurations
+ */
+export class LevelRegistry {
+  private static _instance: LevelRegistry;
+  private _levelConfigs: Map<string, LevelConfig> = new Map();
+  
+  private constructor() {}
+  
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): LevelRegistry {
+    if (!this._instance) {
+      this._instance = new LevelRegistry();
+    }
+    return this._instance;
+  }
+  
+  /**
+   * Load level configurations from JSON array
+   * @param levelsJson Array of level configurations from JSON
+   * @param gameJson Global game config used for values a level doesn't override
+   */
+  public loadLevels(levelsJson: any[], gameJson: any = {}): void {
+    levelsJson.forEach(levelJson => {
+      const config = convertLevelJsonToConfig(levelJson, gameJson);
+      this._levelConfigs.set(config.id, config);
+    });
+  }
+  
+  /**
+   * Get level configuration by ID
+   * @param levelId The level ID
+   * @returns The level configuration or undefined if not found
+   */
+  public getLevelConfig(levelId: string): LevelConfig | undefined {
+    return this._levelConfigs.get(levelId);
+  }
+  
+  /**
+   * Get all level configurations in the order they were defined
+   * @returns Array of all level configurations
+   */
+  public getAllLevelConfigs(): LevelConfig[] {
+    return Array.from(this._levelConfigs.values());
+  }
+  
+  /**
+   * Clear the level registry
+   */
+  public clear(): void {
+    this._levelConfigs.clear();
+  }
+}
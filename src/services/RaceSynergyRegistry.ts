@@ -0,0 +1,60 @@
+import { Card } from '../entities/Card';
+import { RaceBonus, RaceSynergyConfig, convertRaceSynergyJsonToConfig } from '../entities/RaceSynergy';
+import { ResourceType } from '../entities/Types';
+
+/**
+ * Global registry for the bonuses of playing cards of the same race together
+ */
+export class RaceSynergyRegistry {
+  private static _instance: RaceSynergyRegistry;
+  private _synergyConfigs: Map<string, RaceSynergyConfig> = new Map();
+  
+  private constructor() {}
+  
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): RaceSynergyRegistry {
+    if (!this._instance) {
+      this._instance = new RaceSynergyRegistry();
+    }
+    return this._instance;
+  }
+  
+  /**
+   * Load race synergy configurations from JSON array
+   * @param synergiesJson Array of race synergy configurations from JSON
+   */
+  public loadSynergies(synergiesJson: any[]): void {
+    synergiesJson.forEach(synergyJson => {
+      const config = convertRaceSynergyJsonToConfig(synergyJson);
+      this._synergyConfigs.set(config.id, config);
+    });
+  }
+  
+  /**
+   * Get all available race synergy configurations
+   */
+  public getAllSynergyConfigs(): RaceSynergyConfig[] {
+    return Array.from(this._synergyConfigs.values());
+  }
+  
+  /**
+   * Get the synergy bonuses earned by playing cards together for a resource
+   * @param cards The cards played together
+   * @param resourceType The resource the cards are played for
+   */
+  public getSynergyBonuses(cards: Card[], resourceType: ResourceType): RaceBonus[] {
+    return this.getAllSynergyConfigs()
+      .filter(synergy => synergy.resourceType === null || synergy.resourceType === resourceType)
+      .filter(synergy => cards.filter(card => card.race === synergy.race).length >= synergy.minCards)
+      .map(synergy => ({ source: synergy.name, value: synergy.bonus }));
+  }
+  
+  /**
+   * Clear all registered synergies
+   */
+  public clear(): void {
+    this._synergyConfigs.clear();
+  }
+}
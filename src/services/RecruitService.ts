@@ -51,6 +51,14 @@ export class RecruitService extends Phaser.Events.EventEmitter {
       BuildingServiceEvents.BUILDING_CONSTRUCTED, 
       this.onBuildingConstructed.bind(this)
     );
+    this.buildingService.on(
+      BuildingServiceEvents.BUILDING_UPGRADED, 
+      this.refreshAvailableRecruits.bind(this)
+    );
+    this.buildingService.on(
+      BuildingServiceEvents.BUILDING_DEMOLISHED, 
+      this.refreshAvailableRecruits.bind(this)
+    );
   }
 
   /**
@@ -64,6 +72,15 @@ export class RecruitService extends Phaser.Events.EventEmitter {
     });
   }
 
+  /**
+   * Rebuild the available recruits from the constructed buildings
+   * Used when a building is replaced or removed, so the recruits it made available are no longer offered
+   */
+  private refreshAvailableRecruits(): void {
+    this.availableRecruits = [];
+    this.initializeAvailableRecruits();
+  }
+
   /**
    * Handle building construction event
    * @param buildingId ID of the constructed building
@@ -4,7 +4,8 @@
  */
 
 import Phaser from 'phaser';
-import { ResourceType } from '../entities/Types';
+import { BuildingTrigger } from '../entities/Building';
+import { ResourceCost, ResourceType } from '../entities/Types';
 import { BuildingService } from './BuildingService';
 
 /**
@@ -23,10 +24,21 @@ export interface ResourceChangeEvent {
   previousAmount: number;
 }
 
+/**
+ * Serializable state of the resources, used for saving and restoring a run
+ */
+export interface ResourceState {
+  invention: number;
+  construction: number;
+  power: number;
+  inventionSpent?: number;
+}
+
 export class ResourceService extends Phaser.Events.EventEmitter {
   private invention: number = 0;
   private construction: number = 0;
   private power: number = 0;
+  private inventionSpent: number = 0; // Total invention consumed during the run
   private buildingService?: BuildingService;
 
   /**
@@ -46,6 +58,12 @@ export class ResourceService extends Phaser.Events.EventEmitter {
   }
 
   public resetResourcesEndOfDay(): void {
+    if (!this.buildingService) {
+      throw new Error('Building service not set');
+    }
+
+    // Construction left at the end of the day continues the buildings under construction
+    this.buildingService.investInProjects();
     this.resetResources();
   }
 
@@ -58,14 +76,15 @@ export class ResourceService extends Phaser.Events.EventEmitter {
       throw new Error('Building service not set');
     }
 
-    const hasWarehouse = this.buildingService.isBuildingConstructed('warehouse');
-    
-    if (hasWarehouse) {
-      // Warehouse keeps 50% of resources
-      this.resetResources(0.5);
-    } else {
-      this.resetResources();
-    }
+    // Construction left when the hand is discarded continues the buildings under construction
+    this.buildingService.investInProjects();
+
+    // Buildings with keep_resources effects store a part of the resources, the best one counts
+    const percentToKeep = this.buildingService.getConstructedBuildings()
+      .flatMap(building => building.effects.filter(effect => effect.type === 'keep_resources'))
+      .reduce((best, effect) => Math.max(best, effect.percent || 0), 0);
+
+    this.resetResources(Math.min(percentToKeep, 1));
   }
 
   /**
@@ -99,32 +118,14 @@ export class ResourceService extends Phaser.Events.EventEmitter {
 
   /**
    * Process effects from all constructed buildings
-   * Adds resources based on building effects with 'on_day_start' timing
+   * Applies the building effects with 'on_day_start' timing
    */
   private processBuildingEffects(): void {
     if (!this.buildingService) {
       throw new Error('Building service not set');
     }
 
-    const constructedBuildings = this.buildingService.getConstructedBuildings();
-    
-    constructedBuildings.forEach(building => {
-      building.effects?.forEach(effect => {
-        if (effect.type === 'add_resource' && effect.when === 'on_day_start') {
-          switch (effect.resource) {
-            case 'invention':
-              this.addInvention(effect.amount);
-              break;
-            case 'construction':
-              this.addConstruction(effect.amount);
-              break;
-            case 'power':
-              this.addPower(effect.amount);
-              break;
-          }
-        }
-      });
-    });
+    this.buildingService.triggerEffects(BuildingTrigger.OnDayStart);
   }
 
   /**
@@ -160,6 +161,49 @@ export class ResourceService extends Phaser.Events.EventEmitter {
     this.emitResourceChange(ResourceType.Power, this.power, previousAmount);
   }
 
+  /**
+   * Add an amount of any resource type
+   * @param type The resource type to add
+   * @param amount Amount to add
+   */
+  public addResource(type: ResourceType, amount: number): void {
+    switch (type) {
+      case ResourceType.Invention:
+        this.addInvention(amount);
+        break;
+      case ResourceType.Construction:
+        this.addConstruction(amount);
+        break;
+      case ResourceType.Power:
+        this.addPower(amount);
+        break;
+    }
+  }
+
+  /**
+   * Add several resources at once
+   * @param resources Amount of every resource to add
+   */
+  public addResources(resources: ResourceCost): void {
+    if (resources.power) this.addPower(resources.power);
+    if (resources.construction) this.addConstruction(resources.construction);
+    if (resources.invention) this.addInvention(resources.invention);
+  }
+
+  /**
+   * Consume several resources at once
+   * Nothing is consumed unless there is enough of every resource
+   * @param cost Amount of every resource to consume
+   * @returns True if consumption was successful, false if not enough resources
+   */
+  public consumeResources(cost: ResourceCost): boolean {
+    if (!this.hasEnoughResources(cost)) return false;
+    if (cost.power) this.consumePower(cost.power);
+    if (cost.construction) this.consumeConstruction(cost.construction);
+    if (cost.invention) this.consumeInvention(cost.invention);
+    return true;
+  }
+
   /**
    * Consume invention resource
    * @param amount Amount to consume
@@ -170,6 +214,7 @@ export class ResourceService extends Phaser.Events.EventEmitter {
     if (amount > this.invention) return false;
     const previousAmount = this.invention;
     this.invention -= amount;
+    this.inventionSpent += amount;
     this.emitResourceChange(ResourceType.Invention, this.invention, previousAmount);
     return true;
   }
@@ -210,6 +255,14 @@ export class ResourceService extends Phaser.Events.EventEmitter {
     return this.invention;
   }
 
+  /**
+   * Get the total invention consumed during the run
+   * @returns Total invention spent
+   */
+  public getInventionSpent(): number {
+    return this.inventionSpent;
+  }
+
   /**
    * Get current construction amount
    * @returns Current construction amount
@@ -253,6 +306,48 @@ export class ResourceService extends Phaser.Events.EventEmitter {
     return this.power >= amount;
   }
 
+  /**
+   * Check if player has enough of every resource of a cost
+   * @param cost Amount of every resource to check
+   * @returns True if player has enough, false otherwise
+   */
+  public hasEnoughResources(cost: ResourceCost): boolean {
+    return this.hasEnoughPower(cost.power || 0) &&
+      this.hasEnoughConstruction(cost.construction || 0) &&
+      this.hasEnoughInvention(cost.invention || 0);
+  }
+
+  /**
+   * Get the serializable state of all resources
+   */
+  public getState(): ResourceState {
+    return {
+      invention: this.invention,
+      construction: this.construction,
+      power: this.power,
+      inventionSpent: this.inventionSpent
+    };
+  }
+
+  /**
+   * Restore all resources from a saved state
+   * @param state The saved resource state
+   */
+  public restoreState(state: ResourceState): void {
+    const oldInvention = this.invention;
+    const oldConstruction = this.construction;
+    const oldPower = this.power;
+
+    this.invention = state.invention;
+    this.construction = state.construction;
+    this.power = state.power;
+    this.inventionSpent = state.inventionSpent || 0;
+
+    this.emitResourceChange(ResourceType.Invention, this.invention, oldInvention);
+    this.emitResourceChange(ResourceType.Construction, this.construction, oldConstruction);
+    this.emitResourceChange(ResourceType.Power, this.power, oldPower);
+  }
+
   /**
    * Emit a resource change event
    * @param type Type of resource that changed
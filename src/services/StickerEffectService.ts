@@ -0,0 +1,87 @@
+import { Card } from '../entities/Card';
+import { PlayerHand } from '../entities/PlayerHand';
+import { StickerEffectContext, StickerTrigger } from '../entities/Sticker';
+import { ResourceType } from '../entities/Types';
+import { EffectDispatcher } from './EffectDispatcher';
+import { InvasionService } from './InvasionService';
+import { ResourceService } from './ResourceService';
+
+/**
+ * Service that applies the effects of stickers when their cards are played or discarded
+ */
+export class StickerEffectService {
+  private playerHand: PlayerHand;
+  private resourceService: ResourceService;
+  private invasionService: InvasionService;
+  private effectDispatcher: EffectDispatcher;
+
+  /**
+   * Create a new StickerEffectService
+   * @param playerHand The player's hand, whose played and discarded cards trigger the effects
+   * @param resourceService Service for managing resources
+   * @param invasionService Service tracking the invasion
+   * @param effectDispatcher Dispatcher for effects that are not handled by the stickers themselves
+   */
+  constructor(
+    playerHand: PlayerHand,
+    resourceService: ResourceService,
+    invasionService: InvasionService,
+    effectDispatcher: EffectDispatcher
+  ) {
+    this.playerHand = playerHand;
+    this.resourceService = resourceService;
+    this.invasionService = invasionService;
+    this.effectDispatcher = effectDispatcher;
+
+    this.playerHand.on(PlayerHand.Events.CARDS_PLAYED, this.onCardsPlayed, this);
+    this.playerHand.on(PlayerHand.Events.CARDS_DISCARDED, this.onCardsDiscarded, this);
+  }
+
+  /**
+   * Handler for when cards are played
+   * @param cards The played cards
+   * @param resourceType The resource the cards were played for
+   */
+  private onCardsPlayed(cards: Card[], resourceType?: ResourceType): void {
+    this.applyEffects(cards, StickerTrigger.OnPlay, resourceType);
+  }
+
+  /**
+   * Handler for when cards are discarded without being played
+   * @param cards The discarded cards
+   */
+  private onCardsDiscarded(cards: Card[]): void {
+    this.applyEffects(cards, StickerTrigger.OnDiscard);
+  }
+
+  /**
+   * Apply the sticker effects of cards for a trigger
+   * @param cards The cards played or discarded together
+   * @param trigger The moment the effects are applied
+   * @param resourceType The resource the cards were played for
+   */
+  private applyEffects(cards: Card[], trigger: StickerTrigger, resourceType?: ResourceType): void {
+    cards.forEach(card => {
+      const context: StickerEffectContext = {
+        card,
+        cards,
+        trigger,
+        resourceType,
+        playerHand: this.playerHand,
+        resourceService: this.resourceService,
+        invasionService: this.invasionService,
+        effectDispatcher: this.effectDispatcher
+      };
+
+      card.getStickerEffects(trigger).forEach(effect => effect.effect(context));
+    });
+  }
+
+  /**
+   * Clean up event listeners
+   */
+  public destroy(): void {
+    this.playerHand.off(PlayerHand.Events.CARDS_PLAYED, this.onCardsPlayed, this);
+    this.playerHand.off(PlayerHand.Events.CARDS_DISCARDED, this.onCardsDiscarded, this);
+  }
+}
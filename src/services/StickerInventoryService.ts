@@ -0,0 +1,236 @@
+import Phaser from 'phaser';
+import { StickerConfig, StickerRarity } from '../entities/Sticker';
+import { BuildingService } from './BuildingService';
+import { InvasionService, InvasionServiceEvents } from './InvasionService';
+import { StickerRegistry } from './StickerRegistry';
+
+/**
+ * Events emitted by the StickerInventoryService
+ */
+export enum StickerInventoryEvents {
+  OFFER_CHANGED = 'offer-changed'
+}
+
+/**
+ * How often stickers of a rarity are offered and how many of each are in stock
+ */
+export interface StickerRarityConfig {
+  weight: number;
+  stock: number;
+}
+
+export interface StickerInventoryConfig {
+  offerSize: number;
+  rerollCost: number;
+  rarities: Partial<Record<StickerRarity, StickerRarityConfig>>;
+  unlockedRarities: StickerRarity[]; // Rarities offered without any building
+}
+
+/**
+ * Sticker offered in the shop and how many of it can still be bought
+ */
+export interface StickerOfferEntry {
+  stickerId: string;
+  stock: number;
+}
+
+/**
+ * Serializable state of the shop inventory, used for saving and restoring a run
+ */
+export interface StickerInventoryState {
+  offer: StickerOfferEntry[];
+}
+
+/**
+ * Raw sticker_shop_inventory entry of game.json
+ */
+export interface StickerInventoryJson {
+  offer_size?: number;
+  reroll_cost?: number;
+  rarities?: Record<string, { weight?: number; stock?: number }>;
+  unlocked_rarities?: StickerRarity[];
+}
+
+/**
+ * Function to convert the sticker_shop_inventory JSON data of game.json to StickerInventoryConfig
+ * @param inventoryJson The sticker_shop_inventory entry of game.json
+ */
+export function convertStickerInventoryJsonToConfig(inventoryJson?: StickerInventoryJson): StickerInventoryConfig {
+  const rarities: Partial<Record<StickerRarity, StickerRarityConfig>> = {};
+  Object.entries(inventoryJson?.rarities || {}).forEach(([rarity, rarityJson]) => {
+    rarities[rarity as StickerRarity] = {
+      weight: rarityJson.weight || 0,
+      stock: rarityJson.stock || 1
+    };
+  });
+
+  return {
+    offerSize: inventoryJson?.offer_size || 5,
+    rerollCost: inventoryJson?.reroll_cost || 0,
+    rarities,
+    unlockedRarities: inventoryJson?.unlocked_rarities || [StickerRarity.Common]
+  };
+}
+
+/**
+ * Service managing the stickers offered in the sticker shop
+ * A new offer is drawn every day from the unlocked rarities, buildings with
+ * unlock_sticker_rarity effects unlock additional rarities from the next offer on
+ */
+export class StickerInventoryService extends Phaser.Events.EventEmitter {
+  private config: StickerInventoryConfig;
+  private buildingService: BuildingService;
+  private invasionService: InvasionService;
+  private offer: StickerOfferEntry[] = [];
+
+  /**
+   * Create a new StickerInventoryService and draw the first offer
+   * @param config Configuration of the offer size, reroll cost and rarities
+   * @param buildingService Service for checking which buildings unlock rarities
+   * @param invasionService Service tracking the days, a new offer is drawn every day
+   */
+  constructor(
+    config: StickerInventoryConfig,
+    buildingService: BuildingService,
+    invasionService: InvasionService
+  ) {
+    super();
+    this.config = config;
+    this.buildingService = buildingService;
+    this.invasionService = invasionService;
+
+    this.rollOffer();
+
+    this.invasionService.on(InvasionServiceEvents.INVASION_PROGRESSED, this.rollOffer, this);
+  }
+
+  /**
+   * Get the stickers currently offered
+   */
+  public getOffer(): StickerOfferEntry[] {
+    return this.offer.map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Get how many of a sticker can still be bought today
+   * @param stickerId The sticker ID
+   */
+  public getStock(stickerId: string): number {
+    return this.offer.find(entry => entry.stickerId === stickerId)?.stock || 0;
+  }
+
+  /**
+   * Get the invention cost of drawing a new offer
+   */
+  public getRerollCost(): number {
+    return this.config.rerollCost;
+  }
+
+  /**
+   * Get the rarities that can be offered, including the ones unlocked by constructed buildings
+   */
+  public getUnlockedRarities(): StickerRarity[] {
+    const rarities = new Set<StickerRarity>(this.config.unlockedRarities);
+
+    this.buildingService.getConstructedBuildings().forEach(building => {
+      (building.effects || [])
+        .filter(effect => effect.type === 'unlock_sticker_rarity')
+        .forEach(effect => rarities.add(effect.rarity as StickerRarity));
+    });
+
+    return Array.from(rarities);
+  }
+
+  /**
+   * Draw a new offer, replacing the current one
+   * Stickers are drawn without repetition, weighted by the weight of their rarity
+   */
+  public rollOffer(): void {
+    const unlockedRarities = this.getUnlockedRarities();
+    let candidates = StickerRegistry.getInstance().getAllStickerConfigs()
+      .filter(sticker => unlockedRarities.includes(sticker.rarity) && this.getWeight(sticker) > 0);
+
+    const offer: StickerOfferEntry[] = [];
+    while (offer.length < this.config.offerSize && candidates.length > 0) {
+      const sticker = this.drawWeighted(candidates);
+      offer.push({
+        stickerId: sticker.id,
+        stock: this.config.rarities[sticker.rarity]?.stock || 1
+      });
+      candidates = candidates.filter(candidate => candidate !== sticker);
+    }
+
+    this.offer = offer;
+    this.emit(StickerInventoryEvents.OFFER_CHANGED, this.getOffer());
+  }
+
+  /**
+   * Take a sticker out of the stock
+   * @param stickerId The sticker ID
+   * @returns True if the sticker was in stock, false otherwise
+   */
+  public purchase(stickerId: string): boolean {
+    const entry = this.offer.find(offerEntry => offerEntry.stickerId === stickerId);
+    if (!entry || entry.stock <= 0) {
+      return false;
+    }
+
+    entry.stock--;
+    this.emit(StickerInventoryEvents.OFFER_CHANGED, this.getOffer());
+    return true;
+  }
+
+  /**
+   * Get the weight of a sticker when drawing the offer
+   */
+  private getWeight(sticker: StickerConfig): number {
+    return this.config.rarities[sticker.rarity]?.weight || 0;
+  }
+
+  /**
+   * Draw a random sticker, weighted by rarity
+   * @param candidates The stickers to draw from, must not be empty
+   */
+  private drawWeighted(candidates: StickerConfig[]): StickerConfig {
+    const totalWeight = candidates.reduce((total, sticker) => total + this.getWeight(sticker), 0);
+    let roll = Math.random() * totalWeight;
+
+    for (const sticker of candidates) {
+      roll -= this.getWeight(sticker);
+      if (roll < 0) {
+        return sticker;
+      }
+    }
+
+    return candidates[candidates.length - 1];
+  }
+
+  /**
+   * Get the serializable state of the inventory
+   */
+  public getState(): StickerInventoryState {
+    return {
+      offer: this.getOffer()
+    };
+  }
+
+  /**
+   * Restore the offer from a saved state
+   * @param state The saved inventory state
+   */
+  public restoreState(state: StickerInventoryState): void {
+    const stickerRegistry = StickerRegistry.getInstance();
+    this.offer = state.offer
+      .filter(entry => stickerRegistry.getStickerConfig(entry.stickerId))
+      .map(entry => ({ ...entry }));
+    this.emit(StickerInventoryEvents.OFFER_CHANGED, this.getOffer());
+  }
+
+  /**
+   * Clean up event listeners
+   */
+  public destroy(): void {
+    this.invasionService.off(InvasionServiceEvents.INVASION_PROGRESSED, this.rollOffer, this);
+    this.removeAllListeners();
+  }
+}
@@ -1,19 +1,44 @@
+import { stringToRace } from '../entities/Card';
 import {
+  DrawCardStickerEffect,
+  GameStickerEffect,
+  MultiplyStickerEffect,
+  RaceBonusStickerEffect,
   ResourceStickerEffect,
   StickerConfig,
+  StickerEffect,
+  StickerEffectContext,
+  StickerEffectParser,
   StickerEffectType,
-  StickerType
+  StickerRarity,
+  StickerTrigger,
+  StickerType,
+  WildStickerEffect
 } from '../entities/Sticker';
 import { ResourceType } from '../entities/Types';
 
+const resourceTypeMap: Record<string, ResourceType> = {
+  'Power': ResourceType.Power,
+  'Construction': ResourceType.Construction,
+  'Invention': ResourceType.Invention
+};
+
 /**
  * Global registry for sticker configurations
+ * Sticker effects are created by the parser registered for their type in the config
  */
 export class StickerRegistry {
   private static _instance: StickerRegistry;
   private _stickerConfigs: Map<string, StickerConfig> = new Map();
+  private _effectParsers: Map<string, StickerEffectParser> = new Map();
 
-  private constructor() {}
+  private constructor() {
+    this.registerEffectParser('Resource', effectJson => this.parseResourceEffect(effectJson));
+    this.registerEffectParser('DrawCard', effectJson => this.parseDrawCardEffect(effectJson));
+    this.registerEffectParser('RaceBonus', effectJson => this.parseRaceBonusEffect(effectJson));
+    this.registerEffectParser('Multiply', effectJson => this.parseMultiplyEffect(effectJson));
+    this.registerEffectParser('Wild', effectJson => this.parseWildEffect(effectJson));
+  }
 
   /**
    * Get the singleton instance of StickerRegistry
@@ -25,6 +50,16 @@ export class StickerRegistry {
     return StickerRegistry._instance;
   }
 
+  /**
+   * Register the parser for a sticker effect type, replacing any existing one
+   * Must be called before the stickers using the effect type are loaded
+   * @param type The effect type, as used in stickers.json
+   * @param parser Function that creates the effect from its JSON config
+   */
+  public registerEffectParser(type: string, parser: StickerEffectParser): void {
+    this._effectParsers.set(type, parser);
+  }
+
   /**
    * Load sticker configurations from JSON array
    * @param stickersJson Array of sticker configurations from JSON
@@ -44,30 +79,11 @@ export class StickerRegistry {
       'Power': StickerType.Power,
       'Construction': StickerType.Construction,
       'Invention': StickerType.Invention,
-      'Wild': StickerType.Wild
+      'Wild': StickerType.Wild,
+      'Utility': StickerType.Utility
     };
 
-    const effects = stickerJson.effects.map((effectJson: any) => {
-      if (effectJson.type === 'Resource') {
-        const resourceTypeMap: Record<string, ResourceType> = {
-          'Power': ResourceType.Power,
-          'Construction': ResourceType.Construction,
-          'Invention': ResourceType.Invention
-        };
-
-        const effect: ResourceStickerEffect = {
-          type: StickerEffectType.Resource,
-          resourceType: resourceTypeMap[effectJson.resourceType],
-          value: effectJson.value,
-          effect: () => {
-            // Resource stickers don't have special effects
-          }
-        };
-        return effect;
-      } else {
-        throw new Error(`Unknown effect type: ${effectJson.type}`);
-      }
-    });
+    const effects = stickerJson.effects.map((effectJson: any) => this.parseEffect(effectJson));
 
     return {
       id: stickerJson.id,
@@ -76,7 +92,137 @@ export class StickerRegistry {
       image: stickerJson.image,
       type: typeMap[stickerJson.type],
       effects,
-      cost: stickerJson.cost
+      cost: stickerJson.cost,
+      rarity: stickerJson.rarity || StickerRarity.Common,
+      races: (stickerJson.races || []).map((race: string) => stringToRace(race))
+    };
+  }
+
+  /**
+   * Create a sticker effect using the parser registered for its type
+   * Effects without a parser are applied through the EffectDispatcher
+   */
+  private parseEffect(effectJson: any): StickerEffect {
+    if (typeof effectJson.type !== 'string') {
+      throw new Error(`Unknown effect type: ${effectJson.type}`);
+    }
+
+    const parser = this._effectParsers.get(effectJson.type);
+    return parser ? parser(effectJson) : this.parseGameEffect(effectJson);
+  }
+
+  /**
+   * Get the trigger of an effect, effects are applied on play unless configured otherwise
+   */
+  private parseTrigger(effectJson: any): StickerTrigger {
+    return effectJson.trigger === StickerTrigger.OnDiscard ? StickerTrigger.OnDiscard : StickerTrigger.OnPlay;
+  }
+
+  /**
+   * Create an effect that provides a resource, on discard it is added directly
+   */
+  private parseResourceEffect(effectJson: any): ResourceStickerEffect {
+    return {
+      type: StickerEffectType.Resource,
+      trigger: this.parseTrigger(effectJson),
+      resourceType: resourceTypeMap[effectJson.resourceType],
+      value: effectJson.value,
+      effect: (context: StickerEffectContext) => {
+        // Resources of played cards are counted by the resource panels
+        if (context.trigger === StickerTrigger.OnDiscard) {
+          context.resourceService.addResource(resourceTypeMap[effectJson.resourceType], effectJson.value);
+        }
+      }
+    };
+  }
+
+  /**
+   * Create an effect that provides a value of whichever resource the card is played for
+   */
+  private parseWildEffect(effectJson: any): WildStickerEffect {
+    return {
+      type: StickerEffectType.Wild,
+      trigger: this.parseTrigger(effectJson),
+      value: effectJson.value,
+      effect: () => {
+        // Wild values are counted by the resource panel the card is played in
+      }
+    };
+  }
+
+  /**
+   * Create an effect that draws extra cards into the hand
+   */
+  private parseDrawCardEffect(effectJson: any): DrawCardStickerEffect {
+    const count = effectJson.count || 1;
+    return {
+      type: StickerEffectType.DrawCard,
+      trigger: this.parseTrigger(effectJson),
+      count,
+      effect: (context: StickerEffectContext) => {
+        context.playerHand.drawCards(count);
+      }
+    };
+  }
+
+  /**
+   * Create an effect that adds a resource when played together with a card of a given race
+   */
+  private parseRaceBonusEffect(effectJson: any): RaceBonusStickerEffect {
+    const race = stringToRace(effectJson.race);
+    const resourceType = resourceTypeMap[effectJson.resourceType];
+    return {
+      type: StickerEffectType.RaceBonus,
+      trigger: this.parseTrigger(effectJson),
+      race,
+      resourceType,
+      value: effectJson.value,
+      effect: (context: StickerEffectContext) => {
+        const withRace = context.cards.some(card => card !== context.card && card.race === race);
+        if (withRace) {
+          context.resourceService.addResource(resourceType, effectJson.value);
+        }
+      }
+    };
+  }
+
+  /**
+   * Create an effect that multiplies the resource of the card when it is played for that resource
+   */
+  private parseMultiplyEffect(effectJson: any): MultiplyStickerEffect {
+    const resourceType = resourceTypeMap[effectJson.resourceType];
+    const multiplier = effectJson.multiplier || 1;
+    return {
+      type: StickerEffectType.Multiply,
+      trigger: this.parseTrigger(effectJson),
+      resourceType,
+      multiplier,
+      effect: (context: StickerEffectContext) => {
+        // The resource panel already added the base value once
+        if (context.resourceType === resourceType) {
+          const bonus = Math.floor(context.card.getResourceValue(resourceType) * (multiplier - 1));
+          if (bonus > 0) {
+            context.resourceService.addResource(resourceType, bonus);
+          }
+        }
+      }
+    };
+  }
+
+  /**
+   * Create an effect that is applied by the handler registered in the EffectDispatcher
+   */
+  private parseGameEffect(effectJson: any): GameStickerEffect {
+    const { trigger, ...gameEffect } = effectJson;
+    return {
+      type: StickerEffectType.Game,
+      trigger: this.parseTrigger(effectJson),
+      gameEffect,
+      effect: (context: StickerEffectContext) => {
+        if (!context.effectDispatcher.dispatch(gameEffect, { cards: [context.card] })) {
+          console.warn(`No handler for sticker effect: ${gameEffect.type}`);
+        }
+      }
     };
   }
 
@@ -88,4 +234,12 @@ export class StickerRegistry {
   public getStickerConfig(stickerId: string): StickerConfig | undefined {
     return this._stickerConfigs.get(stickerId);
   }
+
+  /**
+   * Get all available sticker configurations
+   * @returns Array of all sticker configurations
+   */
+  public getAllStickerConfigs(): StickerConfig[] {
+    return Array.from(this._stickerConfigs.values());
+  }
 } 
\ No newline at end of file
@@ -1,10 +1,14 @@
 import Phaser from 'phaser';
+import { Race } from '../entities/Types';
 
 /**
  * Service responsible for managing the sticker shop functionality
  */
 export class StickerShopService {
   private _isOpen: boolean = false;
+  private _peelCost: number;
+  private _slotUpgradeCost: number;
+  private _slotCaps: Partial<Record<Race, number>>;
   private _events: Phaser.Events.EventEmitter;
   
   /**
@@ -17,9 +21,20 @@ export class StickerShopService {
   /**
    * Create a new sticker shop service
    * @param initialState Initial shop state (open or closed)
+   * @param peelCost Invention cost of peeling a sticker off a card
+   * @param slotUpgradeCost Invention cost of adding a slot to a card
+   * @param slotCaps Maximum number of slots a card of each race can be upgraded to
    */
-  constructor(initialState: boolean = false) {
+  constructor(
+    initialState: boolean = false,
+    peelCost: number = 5,
+    slotUpgradeCost: number = 12,
+    slotCaps: Partial<Record<Race, number>> = {}
+  ) {
     this._isOpen = initialState;
+    this._peelCost = peelCost;
+    this._slotUpgradeCost = slotUpgradeCost;
+    this._slotCaps = slotCaps;
     this._events = new Phaser.Events.EventEmitter();
   }
   
@@ -51,6 +66,29 @@ export class StickerShopService {
     return this._isOpen;
   }
   
+  /**
+   * Get the invention cost of peeling a sticker off a card
+   */
+  public getPeelCost(): number {
+    return this._peelCost;
+  }
+  
+  /**
+   * Get the invention cost of adding a slot to a card
+   */
+  public getSlotUpgradeCost(): number {
+    return this._slotUpgradeCost;
+  }
+  
+  /**
+   * Get the maximum number of slots a card of a race can be upgraded to
+   * Races without a cap can't get additional slots
+   * @param race The race of the card
+   */
+  public getSlotCap(race: Race): number {
+    return this._slotCaps[race] ?? 0;
+  }
+  
   /**
    * Add event listener for shop events
    * @param event Event name
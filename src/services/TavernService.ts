@@ -1,18 +1,15 @@
 import Phaser from 'phaser';
+import { AdventureLevel } from '../entities/Adventure';
 import { Card } from '../entities/Card';
+import { PlayerHand } from '../entities/PlayerHand';
+import { ResourceType } from '../entities/Types';
+import { AdventureRegistry } from './AdventureRegistry';
 import { CardRegistry } from './CardRegistry';
 import { DeckService } from './DeckService';
+import { EffectDispatcher } from './EffectDispatcher';
 import { ResourceService } from './ResourceService';
 
-/**
- * Enum representing different adventure levels available in the tavern
- */
-export enum AdventureLevel {
-  RECRUITMENT = 'recruitment',
-  IN_TOWN = 'in_town',
-  OUTSIDE_TOWN = 'outside_town',
-  IN_FAR_LANDS = 'in_far_lands'
-}
+export { AdventureLevel } from '../entities/Adventure';
 
 /**
  * Interface representing an adventure option
@@ -34,6 +31,42 @@ export interface AdventureEffect {
   type: string;
   cardType?: string;
   count?: number;
+  [key: string]: any;
+}
+
+/**
+ * Odds of succeeding an adventure depending on the power committed to it
+ * Committing exactly the cost of the adventure gives the base chance, each power above
+ * the cost raises the chance and committing less lowers it proportionally
+ */
+export interface AdventureOddsConfig {
+  baseChance: number;
+  chancePerExtraPower: number;
+  minChance: number;
+  maxChance: number;
+}
+
+/**
+ * Raw adventure_odds entry of game.json
+ */
+export interface AdventureOddsJson {
+  base_chance?: number;
+  chance_per_extra_power?: number;
+  min_chance?: number;
+  max_chance?: number;
+}
+
+/**
+ * Function to convert the adventure_odds JSON data of game.json to AdventureOddsConfig
+ * @param oddsJson The adventure_odds entry of game.json
+ */
+export function convertAdventureOddsJsonToConfig(oddsJson?: AdventureOddsJson): AdventureOddsConfig {
+  return {
+    baseChance: oddsJson?.base_chance ?? 0.5,
+    chancePerExtraPower: oddsJson?.chance_per_extra_power ?? 0.1,
+    minChance: oddsJson?.min_chance ?? 0.05,
+    maxChance: oddsJson?.max_chance ?? 0.95
+  };
 }
 
 /**
@@ -55,17 +88,48 @@ export class TavernService extends Phaser.Events.EventEmitter {
   private adventureOptions: Map<AdventureLevel, AdventureOption[]> = new Map();
   private isOpen: boolean = false;
   private deckService: DeckService<Card>;
+  private playerHand: PlayerHand;
+  private effectDispatcher: EffectDispatcher;
+  private odds: AdventureOddsConfig;
+  private party: Card[] = []; // Cards played for the power an adventure is attempted with
 
   public constructor(
     cardRegistry: CardRegistry,
     resourceService: ResourceService,
-    deckService: DeckService<Card>
+    deckService: DeckService<Card>,
+    playerHand: PlayerHand,
+    effectDispatcher: EffectDispatcher,
+    odds: AdventureOddsConfig = convertAdventureOddsJsonToConfig({})
   ) {
     super();
     this.cardRegistry = cardRegistry;
     this.resourceService = resourceService;
     this.deckService = deckService;
+    this.playerHand = playerHand;
+    this.effectDispatcher = effectDispatcher;
+    this.odds = odds;
     this.initAdventureOptions();
+
+    this.playerHand.on(PlayerHand.Events.CARDS_PLAYED, this.onCardsPlayed, this);
+    this.playerHand.on(PlayerHand.Events.HAND_DISCARDED, this.onHandDiscarded, this);
+  }
+
+  /**
+   * Handler for when cards are played, the ones played for power join the party of the next adventure
+   * @param cards The played cards
+   * @param resourceType The resource the cards were played for
+   */
+  private onCardsPlayed(cards: Card[], resourceType?: ResourceType): void {
+    if (resourceType === ResourceType.Power) {
+      this.party.push(...cards);
+    }
+  }
+
+  /**
+   * Handler for when the hand is discarded, the power of the party is gone with it
+   */
+  private onHandDiscarded(): void {
+    this.party = [];
   }
 
   /**
@@ -96,40 +160,25 @@ export class TavernService extends Phaser.Events.EventEmitter {
 
   /**
    * Initialize available adventure options for each level
-   * Currently only implementing recruitment level
+   * Each level draws from its own pool of adventure cards in the adventure registry
    */
   private initAdventureOptions(): void {
     // Clear existing options
     this.adventureOptions.clear();
     
-    // Initialize recruitment level options
-    const recruitmentOptions: AdventureOption[] = [];
-    
-    // Find recruit cards in the card registry
-    const allCards = this.cardRegistry.getAllCardConfigs();
-    const recruitCards = allCards.filter(card => card.id === 'recruit_card');
-    
-    // TODO note, this should use adventure cards, not player cards. For now adventure cards don't exist. To be done later.
-    recruitCards.forEach(config => {
-      const cardConfig = config as any; // Use any to handle additional properties in recruit card
-      recruitmentOptions.push({
-        id: cardConfig.id,
-        level: AdventureLevel.RECRUITMENT,
-        name: cardConfig.name,
-        description: cardConfig.description || '',
-        cost: cardConfig.cost || 0,
-        applySuccessEffects: () => cardConfig.success_effects || [],
-        applyFailureEffects: () => cardConfig.failure_effects || []
-      });
+    const adventureRegistry = AdventureRegistry.getInstance();
+    Object.values(AdventureLevel).forEach(level => {
+      const options: AdventureOption[] = adventureRegistry.getAdventuresForLevel(level).map(adventure => ({
+        id: adventure.id,
+        level: adventure.level,
+        name: adventure.name,
+        description: adventure.description,
+        cost: adventure.cost,
+        applySuccessEffects: () => adventure.successEffects.map(effect => ({ ...effect })),
+        applyFailureEffects: () => adventure.failureEffects.map(effect => ({ ...effect }))
+      }));
+      this.adventureOptions.set(level, options);
     });
-    
-    this.adventureOptions.set(AdventureLevel.RECRUITMENT, recruitmentOptions);
-    
-    // Initialize empty arrays for other levels
-    // These will be populated with real options in the future
-    this.adventureOptions.set(AdventureLevel.IN_TOWN, []);
-    this.adventureOptions.set(AdventureLevel.OUTSIDE_TOWN, []);
-    this.adventureOptions.set(AdventureLevel.IN_FAR_LANDS, []);
   }
 
   /**
@@ -167,41 +216,71 @@ export class TavernService extends Phaser.Events.EventEmitter {
   }
 
   /**
-   * Try to start an adventure by consuming resources
+   * Get the chance of succeeding an adventure
+   * @param option The adventure option
+   * @param power The power committed to the adventure, defaults to all acquired power
+   * @returns The chance of success between 0 and 1, 0 when no power is committed
+   */
+  public getSuccessChance(option: AdventureOption, power: number = this.resourceService.getPower()): number {
+    if (power <= 0) {
+      return 0;
+    }
+
+    const chance = option.cost <= 0 || power >= option.cost
+      ? this.odds.baseChance + (power - option.cost) * this.odds.chancePerExtraPower
+      : this.odds.baseChance * power / option.cost;
+
+    return Phaser.Math.Clamp(chance, this.odds.minChance, this.odds.maxChance);
+  }
+
+  /**
+   * Try an adventure, committing all acquired power to it
+   * On success only the cost of the adventure is consumed, on failure all committed power is lost
    * @param option The adventure option to attempt
-   * @returns True if resources were consumed successfully, false otherwise
+   * @returns True if the adventure succeeded, false otherwise
    */
   public attemptAdventure(option: AdventureOption): boolean {
-    // Deduct cost - it's always deducted, even if the adventure fails
     const power = this.resourceService.getPower();
-    console.log(`Attempting adventure: ${option.name}, cost: ${option.cost}, power: ${power}`);
-    if (option.cost > power) {
+    const chance = this.getSuccessChance(option, power);
+    const success = Math.random() < chance;
+    console.log(`Attempting adventure: ${option.name}, cost: ${option.cost}, power: ${power}, chance: ${chance}`);
+
+    if (!success) {
       this.resourceService.consumePower(power);
       this.onAdventureFailure(option);
       return false;
     }
 
-    this.resourceService.consumePower(option.cost);
+    this.resourceService.consumePower(Math.min(option.cost, power));
     this.onAdventureSuccess(option);
     return true;
   }
 
   /**
    * Process the results of an adventure
+   * Effects acting upon cards act upon the party, the cards played for the power of the adventure
    * @param option The adventure option that was attempted
    * @param success Whether the adventure was successful
    */
   public processAdventureResult(option: AdventureOption, success: boolean): void {
     // Apply the appropriate effects based on success or failure
     const effects = success ? option.applySuccessEffects() : option.applyFailureEffects();
+    const party = [...this.party];
     
     // Process the effects
     effects.forEach(effect => {
       if (effect.type === 'Card' && effect.cardType) {
         // Add cards to the player's deck based on the effect
         this.addCardsToDiscard(effect.cardType, effect.count || 1);
+      } else if (!this.effectDispatcher.dispatch(effect, { cards: party })) {
+        console.warn(`Unknown adventure effect type: ${effect.type}`);
       }
     });
+
+    // The party is disbanded once all its power is spent
+    if (this.resourceService.getPower() <= 0) {
+      this.party = [];
+    }
   }
 
   /**
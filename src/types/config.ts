@@ -6,4 +6,8 @@ export interface GameConfig {
    * ID of the building that functions as a sticker shop
    */
   sticker_shop_building_id?: string;
+  /**
+   * ID of the building that has to be constructed before buildings can be upgraded
+   */
+  upgrade_building_id?: string;
 } 
\ No newline at end of file
@@ -1,14 +1,16 @@
-import { BuildingEffect } from '../entities/Building';
+import { BuildingEffect, BuildingRequirements } from '../entities/Building';
+import { ResourceCost } from '../entities/Types';
 
 export interface Building {
   id: string;
   name: string;
   description: string;
   image: string;
-  cost?: {
-    construction: number;
-  };
+  cost?: ResourceCost;
   limit?: number | null;
+  upgradesTo?: string;
+  requires?: BuildingRequirements;
+  multiDay?: boolean;
   effects: BuildingEffect[];
 }
 
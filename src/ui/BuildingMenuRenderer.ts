@@ -1,26 +1,16 @@
 import Phaser from 'phaser';
-import { BuildingConfig as OriginalBuildingConfig } from '../entities/Building';
-import { ResourceType } from '../entities/Types';
-import { BuildingService } from '../services/BuildingService';
+import { ResourceCost, ResourceType } from '../entities/Types';
+import { BuildingService, ConstructionProject } from '../services/BuildingService';
 import { ResourceService } from '../services/ResourceService';
 import { CARD_HEIGHT, CARD_SPACING_X, CARD_WIDTH } from './CardRenderer';
+import { ConfirmDialogRenderer } from './ConfirmDialogRenderer';
 import { CostRenderer } from './CostRenderer';
 import { CountLimitRenderer } from './CountLimitRenderer';
 import { InfoPanelRenderer } from './InfoPanelRenderer';
 import { PlayerHandRenderer, PlayerHandRendererEvents } from './PlayerHandRenderer';
 import { ResourcePanelRenderer } from './ResourcePanelRenderer';
 import { SimpleCardRenderer } from './SimpleCardRenderer';
-
-/**
- * Extend the BuildingConfig interface to include cost
- */
-// TODO this should be merged with BuildingConfig
-interface BuildingConfig extends OriginalBuildingConfig {
-  cost?: {
-    construction: number;
-  };
-  limit?: number | null;
-}
+import { TechTreeRenderer } from './TechTreeRenderer';
 
 /**
  * Component for rendering the building construction menu
@@ -33,6 +23,8 @@ export class BuildingMenuRenderer {
   private backgroundPanel!: Phaser.GameObjects.NineSlice;
   private inputBlocker!: Phaser.GameObjects.Rectangle;
   private closeButton!: Phaser.GameObjects.Image;
+  private slotInfoText!: Phaser.GameObjects.Text;
+  private demolishButton!: Phaser.GameObjects.Container;
   private buildingButtons: Phaser.GameObjects.Container[] = [];
   private buildingCards: SimpleCardRenderer[] = [];
   private buildingCostRenderers: CostRenderer[] = [];
@@ -55,6 +47,11 @@ export class BuildingMenuRenderer {
   private currentSlotUniqueId: string = '';
   private selectedBuildingId: string = '';
   private selectedBuildingRenderer: SimpleCardRenderer | null = null;
+  private optionBuildingIds: string[] = [];
+  private constructedBuildingId: string | null = null;
+  private upgradeOptionId: string | null = null;
+  private project: ConstructionProject | null = null;
+  private demolishBlockers: string[] = [];
   
   /**
    * Create a new building menu renderer
@@ -96,6 +93,8 @@ export class BuildingMenuRenderer {
 
     this.createInputBlocker(); // keep this first so other elements are on top for input system
     this.createBackgroundPanel();
+    this.createSlotInfoText();
+    this.createMenuButtons();
     this.createResourcePanel();
     this.createEscapeKeyHandler();
     this.scene.add.existing(this.menuContainer);
@@ -156,6 +155,83 @@ export class BuildingMenuRenderer {
     this.menuContainer.add(this.closeButton);
   }
   
+  /**
+   * Creates the text describing the building constructed in the slot and its upgrade
+   */
+  private createSlotInfoText(): void {
+    this.slotInfoText = this.scene.add.text(
+      this.menuX + this.panelMarginX,
+      this.menuY + 30,
+      '',
+      {
+        fontSize: '18px',
+        color: '#ffffff',
+        wordWrap: { width: this.menuWidth - 2 * this.panelMarginX - 60 }
+      }
+    );
+    this.menuContainer.add(this.slotInfoText);
+  }
+
+  /**
+   * Creates the buttons opening the tech tree and demolishing the building constructed in the slot
+   */
+  private createMenuButtons(): void {
+    const buttonY = this.menuY + this.menuHeight - 45;
+    const techTreeButton = this.createButton(this.menuX + 140, buttonY, 'Tech Tree', () => {
+      new TechTreeRenderer(this.scene, this.buildingService);
+    });
+    this.demolishButton = this.createButton(this.menuX + this.menuWidth - 140, buttonY, 'Demolish', () => this.confirmDemolish());
+
+    this.menuContainer.add([techTreeButton, this.demolishButton]);
+  }
+
+  /**
+   * Create a button of the building menu
+   * @param x X position of the button center
+   * @param y Y position of the button center
+   * @param label Text on the button
+   * @param onClick Callback when the button is clicked
+   */
+  private createButton(x: number, y: number, label: string, onClick: () => void): Phaser.GameObjects.Container {
+    const container = this.scene.add.container(x, y);
+
+    const background = this.scene.add['nineslice'](
+      0,
+      0,
+      'panel_wood_arrows',
+      undefined,
+      220,
+      44,
+      20,
+      20,
+      20,
+      20
+    );
+    background.setOrigin(0.5, 0.5);
+
+    const text = this.scene.add.text(0, 0, label, {
+      fontSize: '18px',
+      color: '#ffffff'
+    });
+    text.setOrigin(0.5, 0.5);
+
+    container.add([background, text]);
+
+    background.setInteractive({ useHandCursor: true })
+      .on('pointerdown', onClick);
+
+    // Button hover effects
+    background.on('pointerover', () => {
+      container.setScale(1.05);
+    });
+
+    background.on('pointerout', () => {
+      container.setScale(1.0);
+    });
+
+    return container;
+  }
+
   /**
    * Creates the resource panel for card selection
    */
@@ -184,33 +260,38 @@ export class BuildingMenuRenderer {
    * Update the cost label colors for all building options based on affordability
    */
   private updateBuildingOptionCostColors(): void {
-    const totalAvailable = this.resourcePanelRenderer.totalAvailable();
-    
-    // Update each building card
-    this.buildingCards.forEach((card, index) => {
-      // Get the building ID for this card
-      const buildingIds = this.buildingService.getBuildingSlotByUniqueId(this.currentSlotUniqueId)?.available_for_construction;
-      if (!buildingIds || index >= buildingIds.length) return;
-      
-      const buildingId = buildingIds[index];
-      const buildingConfig = this.buildingService.getBuildingConfig(buildingId) as BuildingConfig;
-      if (!buildingConfig) return;
-      
-      const cost = buildingConfig.cost?.construction || 0;
-      const isAffordable = totalAvailable >= cost;
-      
-      // Find the corresponding cost renderer for this building
-      const costRenderer = this.buildingCostRenderers.find(renderer => 
-        renderer.getContainer().parentContainer === card.getContainer()
-      );
-      
-      // Only update if we found a cost renderer (buildings at limit won't have one)
-      if (costRenderer) {
-        costRenderer.setAffordable(isAffordable);
-      }
+    // Buildings at limit don't have cost renderers
+    this.buildingCostRenderers.forEach(costRenderer => {
+      costRenderer.setAffordable(this.isCostLineAffordable(costRenderer));
     });
   }
 
+  /**
+   * Check if the resource of a cost line is affordable
+   * Construction can come from the selected cards, the other resources have to be acquired already
+   * @param costRenderer The cost line to check
+   */
+  private isCostLineAffordable(costRenderer: CostRenderer): boolean {
+    switch (costRenderer.getResourceType()) {
+      case ResourceType.Construction:
+        return this.resourcePanelRenderer.totalAvailable() >= costRenderer.getCost();
+      case ResourceType.Invention:
+        return this.resourceService.getInvention() >= costRenderer.getCost();
+      case ResourceType.Power:
+        return this.resourceService.getPower() >= costRenderer.getCost();
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Check if the acquired resources cover everything but the construction of a cost
+   * @param cost The cost to check
+   */
+  private canAffordNonConstructionCost(cost: ResourceCost): boolean {
+    return this.resourceService.hasEnoughResources({ ...cost, construction: 0 });
+  }
+
   /**
    * Create the escape key handler
    */
@@ -249,8 +330,28 @@ private handleEscapeKey(): void {
     // Clear any existing building buttons
     this.clearBuildingButtons();
     
+    // A constructed building can be upgraded to its next tier or replaced by another building of the slot,
+    // multi-day buildings can only be started in empty slots
+    const upgrade = this.buildingService.getUpgradeConfig(slotUniqueId);
+    this.constructedBuildingId = this.buildingService.getBuildingInSlot(slotUniqueId);
+    this.upgradeOptionId = upgrade ? upgrade.id : null;
+    this.project = this.buildingService.getProject(slotUniqueId);
+    this.demolishBlockers = this.buildingService.getDemolishBlockers(slotUniqueId);
+    this.optionBuildingIds = this.project ? [this.project.buildingId] : [
+      ...(upgrade ? [upgrade.id] : []),
+      ...slot.available_for_construction.filter(buildingId => buildingId !== this.constructedBuildingId &&
+        !(this.constructedBuildingId && this.buildingService.getBuildingConfig(buildingId).multiDay) &&
+        this.demolishBlockers.length === 0)
+    ];
+    if (!this.constructedBuildingId && this.optionBuildingIds.length === 0) {
+      throw new Error('No buildings available for construction');
+    }
+    this.updateSlotInfo();
+    this.demolishButton.setVisible(this.constructedBuildingId !== null);
+    this.setDemolishButtonState(this.demolishBlockers.length === 0);
+    
     // Create buttons for each available building
-    this.createBuildingButtons(slot.available_for_construction);
+    this.createBuildingButtons(this.optionBuildingIds);
     
     this.resourcePanelRenderer.show();
     
@@ -267,6 +368,85 @@ private handleEscapeKey(): void {
     this.buildingService.openMenu(slotUniqueId);
   }
   
+  /**
+   * Show the building constructed in the slot, its upgrade and the refund for replacing it
+   */
+  private updateSlotInfo(): void {
+    if (this.project) {
+      const building = this.buildingService.getBuildingConfig(this.project.buildingId);
+      this.slotInfoText.setText([
+        `${building.name} is under construction: ${this.project.invested}/${building.cost?.construction || 0} construction`,
+        'Construction left unspent when the hand is discarded continues building it over the next days'
+      ]);
+      return;
+    }
+    
+    if (!this.constructedBuildingId) {
+      this.slotInfoText.setText('');
+      return;
+    }
+    
+    const building = this.buildingService.getBuildingConfig(this.constructedBuildingId);
+    const refund = this.buildingService.getDemolishRefund(this.constructedBuildingId);
+    const lines = [`${building.name} is constructed here`];
+    if (this.upgradeOptionId) {
+      lines.push(`Upgrade it to ${this.buildingService.getBuildingConfig(this.upgradeOptionId).name}, replacing its effects`);
+      const upgradeBuildingId = this.buildingService.getUpgradeBuildingId();
+      if (upgradeBuildingId && !this.buildingService.isUpgradeUnlocked()) {
+        lines.push(`Upgrades require ${this.buildingService.getBuildingConfig(upgradeBuildingId).name} to be constructed`);
+      }
+    }
+    if (this.demolishBlockers.length > 0) {
+      lines.push(`It can't be demolished or replaced: ${this.demolishBlockers.join(', ')}`);
+    } else {
+      lines.push(`Demolishing or replacing it refunds ${this.describeResources(refund)}`);
+    }
+    
+    this.slotInfoText.setText(lines);
+  }
+
+  /**
+   * Enable or disable the demolish button
+   * @param enabled Whether the button should be enabled
+   */
+  private setDemolishButtonState(enabled: boolean): void {
+    const background = this.demolishButton.getAt(0) as Phaser.GameObjects.NineSlice;
+    if (enabled) {
+      background.setTint(0xffffff);
+      background.setInteractive({ useHandCursor: true });
+    } else {
+      background.setTint(0x999999);
+      background.disableInteractive();
+    }
+  }
+
+  /**
+   * List the resources of a cost or refund in words
+   * @param resources The amount of every resource
+   */
+  private describeResources(resources: ResourceCost): string {
+    const parts = (['construction', 'invention', 'power'] as Array<keyof ResourceCost>)
+      .filter(key => (resources[key] || 0) > 0)
+      .map(key => `${resources[key]} ${key}`);
+    return parts.length > 0 ? parts.join(', ') : 'nothing';
+  }
+
+  /**
+   * Get the resources needed for a building option
+   * Replacing the constructed building is cheaper by the refund of the demolished building
+   * @param buildingId The ID of the building option
+   */
+  private getOptionCost(buildingId: string): ResourceCost {
+    if (this.project) {
+      const required = this.buildingService.getBuildingConfig(this.project.buildingId).cost?.construction || 0;
+      return { construction: required - this.project.invested };
+    }
+    if (buildingId === this.upgradeOptionId) {
+      return { ...this.buildingService.getBuildingConfig(buildingId).cost };
+    }
+    return this.buildingService.getConstructionCost(buildingId, this.currentSlotUniqueId);
+  }
+  
   /**
    * Hide the building menu
    */
@@ -276,6 +456,9 @@ private handleEscapeKey(): void {
     this.infoPanelRenderer.infoTargetDeselected();
     this.currentSlotUniqueId = '';
     this.selectedBuildingId = '';
+    this.constructedBuildingId = null;
+    this.upgradeOptionId = null;
+    this.project = null;
     
     // Notify the building service that the menu is closed
     this.buildingService.closeMenu();
@@ -286,10 +469,6 @@ private handleEscapeKey(): void {
    * @param availableBuildingIds Array of building IDs available for construction
    */
   private createBuildingButtons(availableBuildingIds: string[]): void {
-    if (!availableBuildingIds || availableBuildingIds.length === 0) {
-      throw new Error('No buildings available for construction');
-    }
-    
     // Create a button for each available building
     availableBuildingIds.forEach((buildingId, index) => {
       const buttonContainer = this.renderBuildingOption(
@@ -318,9 +497,16 @@ private handleEscapeKey(): void {
     const buttonX = this.menuX + this.panelMarginX + index * (CARD_WIDTH + this.buttonSpacingX);  
     const buttonY = this.menuY + this.menuHeight / 3;
 
-    const buildingConfig = this.buildingService.getBuildingConfig(buildingId) as BuildingConfig;
-    const buildingLimitNotReached = !this.buildingService.reachedConstructedBuildingLimit(buildingId);
-    const onBuildingSelected = buildingLimitNotReached ? (renderer: SimpleCardRenderer) => { this.onBuildingSelected(buildingId, renderer); } : undefined;
+    const buildingConfig = this.buildingService.getBuildingConfig(buildingId);
+    // A started project already passed the limit and requirements, and counts towards the limit itself.
+    // The building constructed in the slot is replaced by the option and counts for neither
+    const buildingLimitNotReached = this.project !== null ||
+      !this.buildingService.reachedConstructedBuildingLimit(buildingId, this.currentSlotUniqueId);
+    const missingRequirements = this.project ? [] :
+      this.buildingService.getMissingRequirements(buildingId, this.currentSlotUniqueId);
+    const canBeSelected = buildingLimitNotReached && missingRequirements.length === 0 &&
+      (buildingId !== this.upgradeOptionId || this.buildingService.isUpgradeUnlocked());
+    const onBuildingSelected = canBeSelected ? (renderer: SimpleCardRenderer) => { this.onBuildingSelected(buildingId, renderer); } : undefined;
 
     // Create a simple card for the building option
     const buildingCard = new SimpleCardRenderer(
@@ -330,10 +516,24 @@ private handleEscapeKey(): void {
       'panel_wood_paper',
       buildingConfig.image,
       1,
-      buildingLimitNotReached,
+      canBeSelected,
       onBuildingSelected
     );
 
+    // Show why a locked building can't be constructed yet
+    if (missingRequirements.length > 0) {
+      const lockedText = this.scene.add.text(0, 0, ['Locked', ...missingRequirements], {
+        fontSize: '14px',
+        color: '#ffffff',
+        align: 'center',
+        backgroundColor: '#000000cc',
+        padding: { x: 6, y: 4 },
+        wordWrap: { width: CARD_WIDTH - 20 }
+      });
+      lockedText.setOrigin(0.5, 0.5);
+      buildingCard.getContainer().add(lockedText);
+    }
+
     // Add count limit renderer above the cost renderer
     const currentBuildingCount = this.buildingService.getConstructedBuildingCount(buildingId);
     const countLimitRenderer = new CountLimitRenderer(
@@ -346,23 +546,16 @@ private handleEscapeKey(): void {
     buildingCard.getContainer().add(countLimitRenderer.getContainer());
     this.buildingCountRenderers.push(countLimitRenderer);
     
-    // Use CostRenderer for the cost display
-    let costRenderer: CostRenderer | null = null;
+    // Use CostRenderer for the cost display, one line for every resource
     if (buildingLimitNotReached) {
-      const cost = buildingConfig.cost?.construction || 0;
-      costRenderer = new CostRenderer(
-        this.scene,
-        cost,
-        0,
-        CARD_HEIGHT/2 + 50,
-        ResourceType.Construction
-      );
-      // Initialize with default affordability (will be updated in updateBuildingOptionCostColors)
-      const initiallyAffordable = this.resourcePanelRenderer.totalAvailable() >= cost;
-      costRenderer.setAffordable(initiallyAffordable);
-      // Add to the card container
-      buildingCard.getContainer().add(costRenderer.getContainer());
-      this.buildingCostRenderers.push(costRenderer);
+      const costRenderers = CostRenderer.createCostLines(this.scene, this.getOptionCost(buildingId), 0, CARD_HEIGHT/2 + 50);
+      costRenderers.forEach(costRenderer => {
+        // Initialize with default affordability (will be updated in updateBuildingOptionCostColors)
+        costRenderer.setAffordable(this.isCostLineAffordable(costRenderer));
+        // Add to the card container
+        buildingCard.getContainer().add(costRenderer.getContainer());
+        this.buildingCostRenderers.push(costRenderer);
+      });
     }
     
     // Add to tracking arrays
@@ -394,7 +587,11 @@ private handleEscapeKey(): void {
     // Set the selected building
     this.selectedBuildingId = buildingId;
     this.selectedBuildingRenderer = renderer;
-    this.resourcePanelRenderer.setTarget(true, this.buildingService.getBuildingConfig(buildingId)?.cost?.construction || 0);
+    // The construct button stays disabled while the other resources of the cost are missing,
+    // multi-day buildings take any amount of construction
+    const cost = this.getOptionCost(buildingId);
+    const isMultiDay = this.project !== null || this.buildingService.getBuildingConfig(buildingId).multiDay;
+    this.resourcePanelRenderer.setTarget(this.canAffordNonConstructionCost(cost), isMultiDay ? 0 : cost.construction || 0);
     renderer.setSelected(true);
 
     // Show building info in the info panel
@@ -409,15 +606,71 @@ private handleEscapeKey(): void {
   }
   
   /**
-   * Construct the selected building using selected cards
+   * Construct the selected building using selected cards, or upgrade the building of the slot to it
+   * Multi-day buildings are started or continued with the construction available
+   * Replacing a constructed building with another one has to be confirmed
    */
   private constructSelectedBuilding(): void { 
-    const constructed = this.buildingService.constructBuilding(this.selectedBuildingId, this.currentSlotUniqueId);
+    if (this.project) {
+      this.buildingService.investInProject(this.currentSlotUniqueId);
+    } else if (this.selectedBuildingId === this.upgradeOptionId) {
+      this.buildingService.upgradeBuilding(this.currentSlotUniqueId);
+    } else if (this.buildingService.getBuildingConfig(this.selectedBuildingId).multiDay) {
+      this.buildingService.startProject(this.selectedBuildingId, this.currentSlotUniqueId);
+    } else if (this.constructedBuildingId) {
+      this.confirmReplacement();
+      return;
+    } else {
+      this.buildingService.constructBuilding(this.selectedBuildingId, this.currentSlotUniqueId);
+    }
     
     // Hide the menu
     this.hide();
   }
   
+  /**
+   * Ask for confirmation and replace the building constructed in the slot with the selected one
+   */
+  private confirmReplacement(): void {
+    if (!this.constructedBuildingId) return;
+
+    const slotUniqueId = this.currentSlotUniqueId;
+    const buildingId = this.selectedBuildingId;
+    const constructedName = this.buildingService.getBuildingConfig(this.constructedBuildingId).name;
+    const selectedName = this.buildingService.getBuildingConfig(buildingId).name;
+    new ConfirmDialogRenderer(
+      this.scene,
+      `Replace ${constructedName} with ${selectedName}? ${constructedName} will be demolished.`,
+      () => {
+        this.buildingService.constructBuilding(buildingId, slotUniqueId);
+        this.hide();
+      },
+      undefined,
+      'Replace'
+    );
+  }
+
+  /**
+   * Ask for confirmation and demolish the building constructed in the slot
+   */
+  private confirmDemolish(): void {
+    if (!this.constructedBuildingId) return;
+
+    const slotUniqueId = this.currentSlotUniqueId;
+    const building = this.buildingService.getBuildingConfig(this.constructedBuildingId);
+    const refund = this.buildingService.getDemolishRefund(this.constructedBuildingId);
+    new ConfirmDialogRenderer(
+      this.scene,
+      `Demolish ${building.name}? ${this.describeResources(refund)} will be refunded.`,
+      () => {
+        this.buildingService.demolishBuilding(slotUniqueId);
+        this.hide();
+      },
+      undefined,
+      'Demolish'
+    );
+  }
+
   /**
    * Clear all building buttons
    */
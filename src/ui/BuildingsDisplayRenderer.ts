@@ -1,6 +1,6 @@
 import Phaser from 'phaser';
 import { Building, BuildingEffect, BuildingSlot, BuildingSlotLocation } from '../entities/Building';
-import { BuildingService } from '../services/BuildingService';
+import { BuildingService, BuildingServiceEvents, ConstructionProject } from '../services/BuildingService';
 import { CardRegistry } from '../services/CardRegistry';
 import { RecruitService } from '../services/RecruitService';
 import { ResourceService } from '../services/ResourceService';
@@ -106,6 +106,9 @@ export class BuildingsDisplayRenderer {
     
     // Subscribe to sticker shop state changes to detect when it closes
     this.stickerShopService.on(StickerShopService.Events.SHOP_STATE_CHANGED, this.onStickerShopStateChanged, this);
+    
+    // Redraw the progress of buildings under construction
+    this.buildingService.on(BuildingServiceEvents.PROJECT_PROGRESSED, this.render, this);
   }
 
   /**
@@ -182,6 +185,7 @@ export class BuildingsDisplayRenderer {
         throw new Error(`No slot found for location with slot_unique_id ${location.slot_unique_id}`);
       }
             
+      const project = this.buildingService.getProject(slot.unique_id);
       let slotContainer: Phaser.GameObjects.Container;
       if (slot.already_constructed) {
         // Find the constructed building for this slot
@@ -190,6 +194,8 @@ export class BuildingsDisplayRenderer {
           throw new Error(`Building ID ${slot.already_constructed} is marked as constructed in slot ${slot.unique_id} but not found in constructed buildings`);
         }
         slotContainer = this.createConstructedBuildingSlot(slot, location, building);
+      } else if (project) {
+        slotContainer = this.createProjectSlot(slot, location, project);
       } else {
         slotContainer = this.createEmptyBuildingSlot(slot, location);
       }
@@ -293,6 +299,79 @@ export class BuildingsDisplayRenderer {
     return container;
   }
   
+  /**
+   * Create a visual representation for a building slot with a building under construction
+   * @param slot The building slot data
+   * @param location The location data for the slot
+   * @param project The project under construction in this slot
+   * @returns Container with the unfinished building and its construction progress
+   */
+  private createProjectSlot(slot: BuildingSlot, location: BuildingSlotLocation, project: ConstructionProject): Phaser.GameObjects.Container {
+    const x = this.panelX + location.x + this.panelMarginX;
+    const y = this.panelY + location.y + this.panelMarginY;
+    const container = this.scene.add.container(x, y);
+    
+    // Set the origin to the center point of the card
+    container.setSize(this.cardWidth, this.cardHeight);
+    container.setPosition(x + this.cardWidth/2, y + this.cardHeight/2);
+    
+    const building = this.buildingService.getBuildingConfig(project.buildingId);
+    const required = building.cost?.construction || 0;
+    
+    // Create the card background
+    const cardBackground = this.scene.add['nineslice'](
+      0,
+      0,
+      'panel_wood_paper',
+      undefined,
+      this.cardWidth,
+      this.cardHeight,
+      20, 20, 20, 20
+    );
+    cardBackground.setOrigin(0.5,0.5);
+
+    cardBackground.setInteractive({ useHandCursor: true });
+    cardBackground.on('pointerdown', () => { this.onBuildingSlotClick(slot, null); });
+    cardBackground.on('pointerover', () => { container.setScale(1.05); });
+    cardBackground.on('pointerout', () => { container.setScale(1); });
+    
+    container.add(cardBackground);
+
+    // Show the unfinished building faded
+    const buildingImage = this.scene.add.image(0, 0, building.image);
+    buildingImage.setDisplaySize(this.cardWidth - 15, this.cardHeight - 15);
+    buildingImage.setOrigin(0.5, 0.5);
+    buildingImage.setAlpha(0.4);
+    container.add(buildingImage);
+
+    // Progress bar of the invested construction
+    const barWidth = this.cardWidth - 30;
+    const barHeight = 12;
+    const barY = this.cardHeight / 2 - 25;
+    const progress = required > 0 ? Math.min(1, project.invested / required) : 1;
+    
+    const barBackground = this.scene.add.rectangle(0, barY, barWidth, barHeight, 0x000000, 0.7);
+    barBackground.setOrigin(0.5, 0.5);
+    const barFill = this.scene.add.rectangle(-barWidth / 2, barY, barWidth * progress, barHeight, 0x66cc66);
+    barFill.setOrigin(0, 0.5);
+    
+    const progressText = this.scene.add.text(0, barY - 18, `${project.invested}/${required}`, {
+      fontSize: '14px',
+      color: '#ffffff',
+      fontStyle: 'bold',
+      backgroundColor: '#000000aa',
+      padding: { x: 4, y: 1 }
+    });
+    progressText.setOrigin(0.5, 0.5);
+    
+    container.add([barBackground, barFill, progressText]);
+    
+    // Add the container to the display container
+    this.displayContainer.add(container);
+    
+    return container;
+  }
+  
   /**
    * Handle clicking on a building slot
    * @param slot The building slot data
@@ -320,6 +399,12 @@ export class BuildingsDisplayRenderer {
         return;
       }
       
+      // Other buildings open the building menu to upgrade, replace or demolish them
+      if (building.upgradesTo || slot.available_for_construction.length > 0) {
+        this.buildingMenuRenderer.show(slot.unique_id);
+        return;
+      }
+      
       console.log(`Building ${building.id} clicked, but it doesn't have special handling`);
       return;
     }
@@ -437,10 +522,12 @@ export class BuildingsDisplayRenderer {
    * Update the component
    */
   public update(): void {
-    // Check if any buildings have been constructed since last update
+    // Check if any buildings have been constructed or upgraded since last update
     const currentBuildings = this.buildingService.getConstructedBuildings();
-    if (currentBuildings.length !== this.constructedBuildings.length) {
-      // Re-render if the number of constructed buildings has changed
+    const buildingsChanged = currentBuildings.length !== this.constructedBuildings.length ||
+      currentBuildings.some((building, index) => building.id !== this.constructedBuildings[index].id);
+    if (buildingsChanged) {
+      // Re-render if the constructed buildings have changed
       this.render();
     }
   }
@@ -452,6 +539,7 @@ export class BuildingsDisplayRenderer {
     // Remove event listeners first
     this.tavernService.off(TavernServiceEvents.TAVERN_STATE_CHANGED, this.onTavernStateChanged, this);
     this.stickerShopService.off(StickerShopService.Events.SHOP_STATE_CHANGED, this.onStickerShopStateChanged, this);
+    this.buildingService.off(BuildingServiceEvents.PROJECT_PROGRESSED, this.render, this);
     
     // Clean up recruit agency renderer if it exists
     if (this.recruitAgencyRenderer) {
@@ -1,8 +1,10 @@
 import Phaser from 'phaser';
 import { Card } from '../entities/Card';
-import { StickerConfig } from '../entities/Sticker';
+import { CardSticker, StickerConfig } from '../entities/Sticker';
+import { Race } from '../entities/Types';
 import { DeckService } from '../services/DeckService';
 import { CARD_HEIGHT, CARD_WIDTH, CardRenderer } from './CardRenderer';
+import { ConfirmDialogRenderer } from './ConfirmDialogRenderer';
 import { PlayerHandRenderer } from './PlayerHandRenderer';
 import { StickerApplicationOverlayEvents, StickerApplicationOverlayRenderer } from './StickerApplicationOverlayRenderer';
 
@@ -11,6 +13,8 @@ import { StickerApplicationOverlayEvents, StickerApplicationOverlayRenderer } fr
  */
 export enum CardOverlayRendererEvents {
   CARD_SELECTED = 'card-selected',
+  STICKER_PEELED = 'sticker-peeled',
+  SLOT_ADDED = 'slot-added',
   CLOSED = 'closed'
 }
 
@@ -27,6 +31,8 @@ export class CardOverlayRenderer extends Phaser.Events.EventEmitter {
   private closeButton: Phaser.GameObjects.Image;
   private title: Phaser.GameObjects.Text;
   private selectedSticker: StickerConfig | null = null;
+  private peelMode: boolean = false;
+  private getSlotCap: ((card: Card) => number) | null = null;
   private onApplyCallback?: (stickerConfig: StickerConfig, card: Card) => void;
   private deckService: DeckService;
   private stickerApplicationOverlay: StickerApplicationOverlayRenderer | null = null;
@@ -135,6 +141,8 @@ export class CardOverlayRenderer extends Phaser.Events.EventEmitter {
    */
   public setSticker(sticker: StickerConfig): void {
     this.selectedSticker = sticker;
+    this.peelMode = false;
+    this.getSlotCap = null;
     
     // Update title to include the sticker name
     if (sticker) {
@@ -142,6 +150,27 @@ export class CardOverlayRenderer extends Phaser.Events.EventEmitter {
     }
   }
   
+  /**
+   * Select a card to peel a sticker from instead of applying one
+   */
+  public setPeelMode(): void {
+    this.selectedSticker = null;
+    this.peelMode = true;
+    this.getSlotCap = null;
+    this.setTitle('Select Card to Peel a Sticker From');
+  }
+  
+  /**
+   * Select a card to add a slot to instead of applying a sticker
+   * @param getSlotCap Function returning the maximum number of slots of a card
+   */
+  public setAddSlotMode(getSlotCap: (card: Card) => number): void {
+    this.selectedSticker = null;
+    this.peelMode = false;
+    this.getSlotCap = getSlotCap;
+    this.setTitle('Select Card to Add a Slot To');
+  }
+  
   /**
    * Show the overlay and render all cards
    */
@@ -255,7 +284,18 @@ export class CardOverlayRenderer extends Phaser.Events.EventEmitter {
    * @param card The card that was clicked
    */
   private onCardClicked(card: Card): void {
-    if (!this.selectedSticker) return;
+    if (this.getSlotCap) {
+      this.addSlotToCard(card, this.getSlotCap(card));
+      return;
+    }
+    
+    if (!this.selectedSticker && !this.peelMode) return;
+    
+    if (this.selectedSticker && !card.canUseSticker(this.selectedSticker)) {
+      const raceNames = this.selectedSticker.races.map(race => Race[race]).join(' or ');
+      this.setTitle(`'${this.selectedSticker.name}' can only be applied to ${raceNames} cards`);
+      return;
+    }
     
     // Create sticker application overlay
     if (this.stickerApplicationOverlay) {
@@ -281,6 +321,14 @@ export class CardOverlayRenderer extends Phaser.Events.EventEmitter {
       }
     );
     
+    this.stickerApplicationOverlay.on(
+      StickerApplicationOverlayEvents.STICKER_PEELED,
+      (sticker: CardSticker, targetCard: Card, slotIndex: number) => {
+        this.emit(CardOverlayRendererEvents.STICKER_PEELED, sticker, targetCard, slotIndex);
+        this.hide();
+      }
+    );
+    
     // Listen for the CLOSED event to close this overlay too
     this.stickerApplicationOverlay.on(
       CardOverlayRendererEvents.CLOSED,
@@ -302,6 +350,31 @@ export class CardOverlayRenderer extends Phaser.Events.EventEmitter {
     this.stickerApplicationOverlay.show();
   }
   
+  /**
+   * Ask for confirmation and add a slot to a card
+   * @param card The card that was clicked
+   * @param slotCap The maximum number of slots of the card
+   */
+  private addSlotToCard(card: Card, slotCap: number): void {
+    if (!card.canAddSlot(slotCap)) {
+      this.setTitle(`${card.name} already has the maximum of ${card.slotCount} slots`);
+      return;
+    }
+    
+    new ConfirmDialogRenderer(
+      this.scene,
+      `Add slot ${card.slotCount + 1} of ${slotCap} to ${card.name}?`,
+      () => {
+        if (card.addSlot(slotCap)) {
+          this.emit(CardOverlayRendererEvents.SLOT_ADDED, card);
+          this.hide();
+        }
+      },
+      undefined,
+      'Add slot'
+    );
+  }
+  
   /**
    * Clear all card renderers
    */
@@ -1,5 +1,5 @@
 import Phaser from 'phaser';
-import { Card } from '../entities/Card';
+import { Card, CardEvents, CardStatus } from '../entities/Card';
 
 /**
  * Card dimensions constants
@@ -39,9 +39,15 @@ export class CardRenderer {
   private stickerGlows: Phaser.GameObjects.Graphics[] = [];
   private stickerImages: Phaser.GameObjects.Image[] = [];
   private inDiscard: boolean = false;
+  private statusObjects: Phaser.GameObjects.GameObject[] = [];
   
   // Constants
   private static DISCARD_TINT = 0x555555; // Gray tint for discard pile cards
+  private static STATUS_COLORS: Record<CardStatus, string> = {
+    [CardStatus.Injured]: '#aa2222',
+    [CardStatus.Exhausted]: '#555577',
+    [CardStatus.Inspired]: '#228833'
+  };
   
   /**
    * Create a new card renderer
@@ -89,6 +95,24 @@ export class CardRenderer {
     
     // Create the card visual with all its elements
     this.createCardVisual();
+    
+    // Redraw the slots when the card gets a new slot and the statuses when they change
+    this.card.on(CardEvents.SLOT_ADDED, this.onSlotAdded, this);
+    this.card.on(CardEvents.STATUS_CHANGED, this.onStatusChanged, this);
+  }
+
+  /**
+   * Handler for when a slot is added to the card
+   */
+  private onSlotAdded(): void {
+    this.renderSlots();
+  }
+
+  /**
+   * Handler for when the statuses of the card change
+   */
+  private onStatusChanged(): void {
+    this.renderStatuses();
   }
 
   /**
@@ -181,6 +205,9 @@ export class CardRenderer {
     // Add slots
     this.renderSlots();
     
+    // Add status badges
+    this.renderStatuses();
+    
     // Make card interactive
     this.cardBackground.setInteractive({ useHandCursor: true })
       .on('pointerdown', () => {
@@ -234,14 +261,17 @@ export class CardRenderer {
     
     if (slotCount <= 0) return;
     
-    // Slot configuration
-    const totalWidth = (this.slotSize * slotCount) + (this.slotSpacing * (slotCount - 1));
+    // Slot configuration, upgraded cards squeeze their slots to fit the card width
+    const slotSpacing = slotCount > 1
+      ? Math.min(this.slotSpacing, (this.cardWidth - this.slotSize * slotCount) / (slotCount - 1))
+      : this.slotSpacing;
+    const totalWidth = (this.slotSize * slotCount) + (slotSpacing * (slotCount - 1));
     const startX = -(totalWidth / 2) + (this.slotSize / 2);
     const y = this.cardHeight / 2 - this.slotOffset; // Position at the bottom of the card
     
     // Create slots
     for (let i = 0; i < slotCount; i++) {
-      const x = startX + (i * (this.slotSize + this.slotSpacing));
+      const x = startX + (i * (this.slotSize + slotSpacing));
       
       // Create sticker glow (initially invisible) - this goes FIRST (behind the slot)
       if (this.selectableSticker) {
@@ -349,9 +379,54 @@ export class CardRenderer {
       
       // Store reference to sticker image for hover effects
       this.stickerImages[slotIndex] = stickerImage;
+      
+      // Wild stickers have no number in their art, so show their value on top
+      const wildValue = slot.sticker.getWildValue();
+      if (wildValue > 0) {
+        const wildText = this.scene.add.text(x, y, `${wildValue}`, {
+          fontSize: '18px',
+          color: '#ffffff',
+          fontStyle: 'bold',
+          stroke: '#000000',
+          strokeThickness: 4
+        });
+        wildText.setOrigin(0.5);
+        this.container.add(wildText);
+        this.slotObjects.push(wildText);
+      }
     }
   }
   
+  /**
+   * Render a badge for every status of the card at the top left corner
+   */
+  private renderStatuses(): void {
+    this.statusObjects.forEach(obj => {
+      this.container.remove(obj);
+      obj.destroy();
+    });
+    this.statusObjects = [];
+    
+    this.card.statuses.forEach((effect, index) => {
+      const label = effect.status.charAt(0).toUpperCase() + effect.status.slice(1);
+      const badge = this.scene.add.text(
+        -this.cardWidth / 2 + 10,
+        -this.cardHeight / 2 + 18 + index * 24,
+        `${label} ${effect.daysLeft}d`,
+        {
+          fontSize: '13px',
+          color: '#ffffff',
+          backgroundColor: CardRenderer.STATUS_COLORS[effect.status],
+          padding: { x: 4, y: 2 }
+        }
+      );
+      badge.setOrigin(0, 0.5);
+      
+      this.statusObjects.push(badge);
+      this.container.add(badge);
+    });
+  }
+  
   /**
    * Clear all slot objects
    */
@@ -378,7 +453,11 @@ export class CardRenderer {
    */
   public updateCard(card: Card, index: number, inDiscard?: boolean): void {
     // Update the card data and index
+    this.card.off(CardEvents.SLOT_ADDED, this.onSlotAdded, this);
+    this.card.off(CardEvents.STATUS_CHANGED, this.onStatusChanged, this);
     this.card = card;
+    this.card.on(CardEvents.SLOT_ADDED, this.onSlotAdded, this);
+    this.card.on(CardEvents.STATUS_CHANGED, this.onStatusChanged, this);
     this.index = index;
     
     // Update the inDiscard flag if provided
@@ -408,6 +487,8 @@ export class CardRenderer {
    * Destroy the card's visual elements
    */
   public destroy(): void {
+    this.card.off(CardEvents.SLOT_ADDED, this.onSlotAdded, this);
+    this.card.off(CardEvents.STATUS_CHANGED, this.onStatusChanged, this);
     this.container.destroy();
   }
   
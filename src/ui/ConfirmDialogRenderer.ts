@@ -0,0 +1,133 @@
+import Phaser from 'phaser';
+
+/**
+ * Renders a modal dialog asking the player to confirm an action
+ * The dialog destroys itself once the player made a choice
+ */
+export class ConfirmDialogRenderer {
+  private scene: Phaser.Scene;
+  private displayContainer: Phaser.GameObjects.Container;
+
+  // Dialog dimensions
+  private dialogWidth: number = 460;
+  private dialogHeight: number = 200;
+  private buttonWidth: number = 150;
+  private buttonHeight: number = 50;
+
+  /**
+   * Create and show a new ConfirmDialogRenderer
+   * @param scene The Phaser scene to render in
+   * @param message The question shown to the player
+   * @param onConfirm Callback when the player confirms
+   * @param onCancel Callback when the player cancels
+   * @param confirmLabel Text on the confirm button
+   */
+  constructor(
+    scene: Phaser.Scene,
+    message: string,
+    onConfirm: () => void,
+    onCancel?: () => void,
+    confirmLabel: string = 'Confirm'
+  ) {
+    this.scene = scene;
+
+    const { width, height } = this.scene.cameras.main;
+    this.displayContainer = this.scene.add.container(width / 2, height / 2);
+
+    // Render above the sticker application overlay
+    this.displayContainer.setDepth(4000);
+
+    // Block clicks on everything behind the dialog
+    const inputBlocker = this.scene.add.rectangle(0, 0, width, height, 0x000000, 0.5);
+    inputBlocker.setOrigin(0.5, 0.5);
+    inputBlocker.setInteractive();
+
+    const background = this.scene.add['nineslice'](
+      0,
+      0,
+      'panel_metal_corners_metal_nice',
+      undefined,
+      this.dialogWidth,
+      this.dialogHeight,
+      20,
+      20,
+      20,
+      20
+    );
+    background.setOrigin(0.5, 0.5);
+
+    const messageText = this.scene.add.text(0, -this.dialogHeight / 2 + 60, message, {
+      fontSize: '18px',
+      color: '#ffffff',
+      align: 'center',
+      wordWrap: { width: this.dialogWidth - 60 }
+    });
+    messageText.setOrigin(0.5, 0.5);
+
+    const buttonY = this.dialogHeight / 2 - 50;
+    const confirmButton = this.createButton(-90, buttonY, confirmLabel, () => {
+      this.destroy();
+      onConfirm();
+    });
+    const cancelButton = this.createButton(90, buttonY, 'Cancel', () => {
+      this.destroy();
+      onCancel?.();
+    });
+
+    this.displayContainer.add([inputBlocker, background, messageText, confirmButton, cancelButton]);
+  }
+
+  /**
+   * Create a dialog button
+   * @param x X position of the button center
+   * @param y Y position of the button center
+   * @param label Text on the button
+   * @param onClick Callback when the button is clicked
+   */
+  private createButton(x: number, y: number, label: string, onClick: () => void): Phaser.GameObjects.Container {
+    const container = this.scene.add.container(x, y);
+
+    const background = this.scene.add['nineslice'](
+      0,
+      0,
+      'panel_wood_arrows',
+      undefined,
+      this.buttonWidth,
+      this.buttonHeight,
+      20,
+      20,
+      20,
+      20
+    );
+    background.setOrigin(0.5, 0.5);
+
+    const text = this.scene.add.text(0, 0, label, {
+      fontSize: '18px',
+      color: '#ffffff'
+    });
+    text.setOrigin(0.5, 0.5);
+
+    container.add([background, text]);
+
+    background.setInteractive({ useHandCursor: true })
+      .on('pointerdown', onClick);
+
+    // Button hover effects
+    background.on('pointerover', () => {
+      container.setScale(1.1);
+    });
+
+    background.on('pointerout', () => {
+      container.setScale(1.0);
+    });
+
+    return container;
+  }
+
+  /**
+   * Destroy the dialog and all its visual elements
+   */
+  public destroy(): void {
+    this.displayContainer.destroy();
+  }
+}
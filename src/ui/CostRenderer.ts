@@ -1,11 +1,21 @@
 import Phaser from 'phaser';
-import { ResourceType } from '../entities/Types';
+import { ResourceCost, ResourceType } from '../entities/Types';
+
+/**
+ * Order of the lines of a cost with several resources, with the key of each resource in a ResourceCost
+ */
+const COST_LINE_ORDER: Array<[keyof ResourceCost, ResourceType]> = [
+  ['construction', ResourceType.Construction],
+  ['invention', ResourceType.Invention],
+  ['power', ResourceType.Power]
+];
 
 export class CostRenderer {
   private scene: Phaser.Scene;
   private container: Phaser.GameObjects.Container;
   private costText: Phaser.GameObjects.Text;
   private cost: number;
+  private resource: ResourceType;
   private isAffordable: boolean = true;
 
   private costWidth: number = 60;
@@ -15,9 +25,15 @@ export class CostRenderer {
   private iconOffsetX: number = 5;
   private iconOffsetY: number = 10;
 
+  /**
+   * Vertical distance between the lines of a cost with several resources
+   */
+  public static readonly LINE_SPACING: number = 26;
+
   constructor(scene: Phaser.Scene, cost: number, centerX: number, centerY: number, resource: ResourceType) {
     this.scene = scene;
     this.cost = cost;
+    this.resource = resource;
     
     // Create container
     this.container = this.scene.add.container(centerX, centerY);
@@ -61,6 +77,38 @@ export class CostRenderer {
     }
   }
 
+  /**
+   * Create a line for every resource of a cost, stacked below each other
+   * A cost without any resource is shown as a single line of 0 construction
+   * @param scene The Phaser scene to render in
+   * @param cost The amount of every resource
+   * @param centerX X position of the lines
+   * @param topY Y position of the first line
+   */
+  public static createCostLines(scene: Phaser.Scene, cost: ResourceCost, centerX: number, topY: number): CostRenderer[] {
+    const lines = COST_LINE_ORDER.filter(([key]) => (cost[key] || 0) > 0);
+    if (lines.length === 0) {
+      return [new CostRenderer(scene, 0, centerX, topY, ResourceType.Construction)];
+    }
+
+    return lines.map(([key, resource], index) =>
+      new CostRenderer(scene, cost[key] || 0, centerX, topY + index * CostRenderer.LINE_SPACING, resource));
+  }
+
+  /**
+   * Get the resource of the cost
+   */
+  public getResourceType(): ResourceType {
+    return this.resource;
+  }
+
+  /**
+   * Get the amount of the resource
+   */
+  public getCost(): number {
+    return this.cost;
+  }
+
   public setAffordable(affordable: boolean): void {
     this.isAffordable = affordable;
     this.costText.setColor(affordable ? '#ffffff' : '#ff0000');
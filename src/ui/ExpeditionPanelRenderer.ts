@@ -0,0 +1,337 @@
+import Phaser from 'phaser';
+import { ExpeditionConfig } from '../entities/Expedition';
+import { ExpeditionRegistry } from '../services/ExpeditionRegistry';
+import { ExpeditionResult, ExpeditionService, ExpeditionServiceEvents } from '../services/ExpeditionService';
+import { PlayerHandRenderer, PlayerHandRendererEvents } from './PlayerHandRenderer';
+
+/**
+ * Renders the expeditions of the tavern inside the tavern panel
+ * The player selects an expedition and the cards in the hand to send on it,
+ * the panel shows how much power the village keeps against the invasion meanwhile
+ */
+export class ExpeditionPanelRenderer {
+  private scene: Phaser.Scene;
+  private container: Phaser.GameObjects.Container;
+  private expeditionService: ExpeditionService;
+  private playerHandRenderer: PlayerHandRenderer;
+  private selectedExpedition: ExpeditionConfig | null = null;
+  private expeditionRows: Map<string, Phaser.GameObjects.NineSlice> = new Map();
+  private detailsText!: Phaser.GameObjects.Text;
+  private warningText!: Phaser.GameObjects.Text;
+  private activeText!: Phaser.GameObjects.Text;
+  private resultText!: Phaser.GameObjects.Text;
+  private sendButton!: Phaser.GameObjects.Container;
+
+  private panelX: number;
+  private panelY: number;
+  private panelWidth: number;
+  private panelHeight: number;
+
+  // Expedition list properties
+  private rowWidth: number = 420;
+  private rowHeight: number = 56;
+  private rowSpacing: number = 10;
+
+  /**
+   * Create a new ExpeditionPanelRenderer
+   * @param scene The Phaser scene to render in
+   * @param panelX X position of the tavern panel
+   * @param panelY Y position of the tavern panel
+   * @param width Width of the tavern panel
+   * @param height Height of the tavern panel
+   * @param playerHandRenderer The player hand renderer for selecting the cards to send
+   * @param expeditionService Service managing the expeditions
+   */
+  constructor(
+    scene: Phaser.Scene,
+    panelX: number,
+    panelY: number,
+    width: number,
+    height: number,
+    playerHandRenderer: PlayerHandRenderer,
+    expeditionService: ExpeditionService
+  ) {
+    this.scene = scene;
+    this.panelX = panelX;
+    this.panelY = panelY;
+    this.panelWidth = width;
+    this.panelHeight = height;
+    this.playerHandRenderer = playerHandRenderer;
+    this.expeditionService = expeditionService;
+
+    this.container = this.scene.add.container();
+    this.container.setVisible(false);
+
+    this.createExpeditionList();
+    this.createDetails();
+
+    this.playerHandRenderer.on(PlayerHandRendererEvents.SELECTION_CHANGED, this.updateDetails, this);
+    this.expeditionService.on(ExpeditionServiceEvents.EXPEDITIONS_CHANGED, this.updateActiveExpeditions, this);
+    this.expeditionService.on(ExpeditionServiceEvents.EXPEDITION_RETURNED, this.onExpeditionReturned, this);
+  }
+
+  /**
+   * Create a selectable row for every expedition
+   */
+  private createExpeditionList(): void {
+    const x = this.panelX + 30 + this.rowWidth / 2;
+
+    ExpeditionRegistry.getInstance().getAllExpeditionConfigs().forEach((expedition, index) => {
+      const y = this.panelY + 90 + index * (this.rowHeight + this.rowSpacing);
+
+      const background = this.scene.add['nineslice'](
+        x,
+        y,
+        'panel_wood_corners_metal',
+        undefined,
+        this.rowWidth,
+        this.rowHeight,
+        20,
+        20,
+        20,
+        20
+      );
+      background.setOrigin(0.5, 0.5);
+      background.setInteractive({ useHandCursor: true })
+        .on('pointerdown', () => this.selectExpedition(expedition));
+
+      const text = this.scene.add.text(
+        x,
+        y,
+        `${expedition.name}\n${expedition.days} days, ${expedition.minCards}-${expedition.maxCards} cards, power ${expedition.requiredPower}`,
+        {
+          fontSize: '15px',
+          color: '#ffffff',
+          align: 'center'
+        }
+      );
+      text.setOrigin(0.5, 0.5);
+
+      this.expeditionRows.set(expedition.id, background);
+      this.container.add([background, text]);
+    });
+  }
+
+  /**
+   * Create the details of the selected expedition, the send button and the list of cards away
+   */
+  private createDetails(): void {
+    const detailsX = this.panelX + this.rowWidth + 60;
+    const detailsWidth = this.panelWidth - this.rowWidth - 90;
+
+    this.detailsText = this.scene.add.text(detailsX, this.panelY + 65, '', {
+      fontSize: '16px',
+      color: '#ffffff',
+      wordWrap: { width: detailsWidth }
+    });
+
+    this.warningText = this.scene.add.text(detailsX, this.panelY + 205, '', {
+      fontSize: '16px',
+      color: '#ff6666',
+      wordWrap: { width: detailsWidth }
+    });
+
+    this.sendButton = this.createButton(detailsX + 110, this.panelY + 260, 'Send', () => this.sendExpedition());
+
+    this.resultText = this.scene.add.text(detailsX, this.panelY + 290, '', {
+      fontSize: '15px',
+      color: '#ffffff',
+      wordWrap: { width: detailsWidth }
+    });
+
+    this.activeText = this.scene.add.text(this.panelX + 30, this.panelY + this.panelHeight - 20, '', {
+      fontSize: '15px',
+      color: '#ffdd66',
+      wordWrap: { width: this.panelWidth - 60 }
+    });
+    this.activeText.setOrigin(0, 1);
+
+    this.container.add([this.detailsText, this.warningText, this.sendButton, this.resultText, this.activeText]);
+  }
+
+  /**
+   * Create a button of the expedition panel
+   * @param x X position of the button center
+   * @param y Y position of the button center
+   * @param label Text on the button
+   * @param onClick Callback when the button is clicked
+   */
+  private createButton(x: number, y: number, label: string, onClick: () => void): Phaser.GameObjects.Container {
+    const container = this.scene.add.container(x, y);
+
+    const background = this.scene.add['nineslice'](
+      0,
+      0,
+      'panel_wood_arrows',
+      undefined,
+      220,
+      44,
+      20,
+      20,
+      20,
+      20
+    );
+    background.setOrigin(0.5, 0.5);
+
+    const text = this.scene.add.text(0, 0, label, {
+      fontSize: '18px',
+      color: '#ffffff'
+    });
+    text.setOrigin(0.5, 0.5);
+
+    container.add([background, text]);
+
+    background.setInteractive({ useHandCursor: true })
+      .on('pointerdown', onClick);
+
+    // Button hover effects
+    background.on('pointerover', () => {
+      container.setScale(1.05);
+    });
+
+    background.on('pointerout', () => {
+      container.setScale(1.0);
+    });
+
+    return container;
+  }
+
+  /**
+   * Select an expedition and highlight its row
+   * @param expedition The expedition to select
+   */
+  private selectExpedition(expedition: ExpeditionConfig): void {
+    this.selectedExpedition = expedition;
+    this.expeditionRows.forEach((row, expeditionId) => {
+      row.setTint(expeditionId === expedition.id ? 0x99ccff : 0xffffff);
+    });
+    this.updateDetails();
+  }
+
+  /**
+   * Show the selected expedition with the power of the selected cards
+   * and the power the village keeps against the invasion while they are away
+   */
+  private updateDetails(): void {
+    if (!this.container.visible) return;
+
+    if (!this.selectedExpedition) {
+      this.detailsText.setText('Choose an expedition and the cards to send on it');
+      this.warningText.setText('');
+      this.setSendButtonState(false);
+      return;
+    }
+
+    const expedition = this.selectedExpedition;
+    const selectedIds = this.playerHandRenderer.getSelectedCardIds();
+    const selectedCards = this.playerHandRenderer.getSelectedCards();
+    const selectedPower = this.expeditionService.getPower(selectedCards);
+    const villagePower = this.expeditionService.getVillagePower();
+    const daysUntilInvasion = this.expeditionService.getDaysUntilInvasion();
+
+    this.detailsText.setText([
+      expedition.description,
+      '',
+      `Selected: ${selectedIds.length} cards, power ${selectedPower}/${expedition.requiredPower}`,
+      `Away for ${expedition.days} days, invasion in ${daysUntilInvasion} days`,
+      `Village power while away: ${villagePower - selectedPower} (now ${villagePower})`
+    ]);
+
+    this.warningText.setText(expedition.days > daysUntilInvasion
+      ? 'The cards will miss the battle against the invasion!'
+      : '');
+
+    this.setSendButtonState(this.expeditionService.canStartExpedition(expedition, selectedIds));
+  }
+
+  /**
+   * Enable or disable the send button
+   * @param enabled Whether the button should be enabled
+   */
+  private setSendButtonState(enabled: boolean): void {
+    const background = this.sendButton.getAt(0) as Phaser.GameObjects.NineSlice;
+    if (enabled) {
+      background.setTint(0xffffff);
+      background.setInteractive({ useHandCursor: true });
+    } else {
+      background.setTint(0x999999);
+      background.disableInteractive();
+    }
+  }
+
+  /**
+   * Send the selected cards on the selected expedition
+   */
+  private sendExpedition(): void {
+    if (!this.selectedExpedition) return;
+
+    const selectedIds = this.playerHandRenderer.getSelectedCardIds();
+    this.playerHandRenderer.clearCardSelection();
+    if (this.expeditionService.startExpedition(this.selectedExpedition.id, selectedIds)) {
+      this.resultText.setText(`${selectedIds.length} cards left for ${this.selectedExpedition.name}`);
+      this.resultText.setColor('#ffffff');
+    }
+    this.updateDetails();
+  }
+
+  /**
+   * List the groups of cards currently away
+   */
+  private updateActiveExpeditions(): void {
+    const registry = ExpeditionRegistry.getInstance();
+    const lines = this.expeditionService.getActiveExpeditions().map(expedition => {
+      const name = registry.getExpeditionConfig(expedition.expeditionId)?.name || expedition.expeditionId;
+      const activity = expedition.recovering ? 'recovering from' : 'on';
+      return `${expedition.cards.length} cards ${activity} ${name}, back in ${expedition.daysLeft} days`;
+    });
+
+    this.activeText.setText(lines.length > 0 ? ['Away:', ...lines] : []);
+    this.updateDetails();
+  }
+
+  /**
+   * Show the outcome of an expedition whose cards returned
+   * @param result The outcome of the expedition
+   */
+  private onExpeditionReturned(result: ExpeditionResult): void {
+    const injuries = result.injuredCards.length > 0
+      ? `, ${result.injuredCards.length} cards were injured and need to recover`
+      : '';
+    this.resultText.setText(result.success
+      ? `${result.expedition.name} succeeded with power ${result.power}!`
+      : `${result.expedition.name} failed with power ${result.power}${injuries}.`);
+    this.resultText.setColor(result.success ? '#66ff66' : '#ff6666');
+  }
+
+  /**
+   * Get the container holding the panel elements
+   */
+  public getContainer(): Phaser.GameObjects.Container {
+    return this.container;
+  }
+
+  /**
+   * Show the expedition panel
+   */
+  public show(): void {
+    this.container.setVisible(true);
+    this.updateActiveExpeditions();
+  }
+
+  /**
+   * Hide the expedition panel
+   */
+  public hide(): void {
+    this.container.setVisible(false);
+  }
+
+  /**
+   * Clean up event listeners and visual elements
+   */
+  public destroy(): void {
+    this.playerHandRenderer.off(PlayerHandRendererEvents.SELECTION_CHANGED, this.updateDetails, this);
+    this.expeditionService.off(ExpeditionServiceEvents.EXPEDITIONS_CHANGED, this.updateActiveExpeditions, this);
+    this.expeditionService.off(ExpeditionServiceEvents.EXPEDITION_RETURNED, this.onExpeditionReturned, this);
+    this.container.destroy();
+  }
+}
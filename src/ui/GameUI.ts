@@ -1,9 +1,11 @@
 import Phaser from 'phaser';
 import { BuildingService } from '../services/BuildingService';
 import { DeckService } from '../services/DeckService';
+import { ExpeditionService } from '../services/ExpeditionService';
 import { InvasionService } from '../services/InvasionService';
 import { RecruitService } from '../services/RecruitService';
 import { ResourceService } from '../services/ResourceService';
+import { StickerInventoryService } from '../services/StickerInventoryService';
 import { StickerShopService } from '../services/StickerShopService';
 import { TavernService } from '../services/TavernService';
 import { BuildingMenuRenderer } from './BuildingMenuRenderer';
@@ -31,10 +33,12 @@ export class GameUI {
   private buildingService: BuildingService;
   private resourceService: ResourceService;
   private stickerShopService: StickerShopService;
+  private stickerInventoryService: StickerInventoryService;
   private playerHandRenderer: PlayerHandRenderer;
   private deckService: DeckService;
   private invasionService: InvasionService;
   private tavernService: TavernService;
+  private expeditionService: ExpeditionService;
   private invasionRenderer!: InvasionRenderer;
   private stickerShopRenderer!: StickerShopRenderer;
   private tavernRenderer!: TavernRenderer;
@@ -47,20 +51,24 @@ export class GameUI {
     buildingService: BuildingService, 
     resourceService: ResourceService, 
     stickerShopService: StickerShopService,
+    stickerInventoryService: StickerInventoryService,
     playerHandRenderer: PlayerHandRenderer,
     deckService: DeckService,
     invasionService: InvasionService,
     tavernService: TavernService,
+    expeditionService: ExpeditionService,
     recruitService: RecruitService
   ) {
     this.scene = scene;
     this.buildingService = buildingService;
     this.resourceService = resourceService;
     this.stickerShopService = stickerShopService;
+    this.stickerInventoryService = stickerInventoryService;
     this.playerHandRenderer = playerHandRenderer;
     this.deckService = deckService;
     this.invasionService = invasionService;
     this.tavernService = tavernService;
+    this.expeditionService = expeditionService;
     this.recruitService = recruitService;
 
     const { width, height } = this.scene.cameras.main;
@@ -94,6 +102,7 @@ export class GameUI {
     this.invasionRenderer = new InvasionRenderer(
       this.scene,
       this.invasionService,
+      this.buildingService,
       0,
       0,
       width,
@@ -164,6 +173,7 @@ export class GameUI {
       panelHeight,
       this.resourceService,
       this.stickerShopService,
+      this.stickerInventoryService,
       this.playerHandRenderer,
       this.deckService
     );
@@ -178,6 +188,7 @@ export class GameUI {
       panelHeight,
       this.playerHandRenderer,
       this.tavernService,
+      this.expeditionService,
       this.resourceService
     );
 
@@ -1,20 +1,57 @@
 import Phaser from 'phaser';
-import { InvasionService } from '../services/InvasionService';
+import { BuildingService } from '../services/BuildingService';
+import { describeEnemyTrait, EnemyConfig } from '../entities/Enemy';
+import { InvasionWaveConfig } from '../entities/Level';
+import { BuildingRegistry } from '../services/BuildingRegistry';
+import { EnemyRegistry } from '../services/EnemyRegistry';
+import { InvasionService, InvasionServiceEvents } from '../services/InvasionService';
 
 /**
  * Renderer for the invasion progress panel
+ * Shows the enemies of the upcoming wave and a track from its starting point to the village with an enemy marker on it
  */
 export class InvasionRenderer {
   private scene: Phaser.Scene;
   private invasionService: InvasionService;
-  private invasionTitle!: Phaser.GameObjects.Text;
+  private buildingService: BuildingService;
+  private dayText!: Phaser.GameObjects.Text;
+  private waveText!: Phaser.GameObjects.Text;
+  private forecastText!: Phaser.GameObjects.Text;
+  private defenseText!: Phaser.GameObjects.Text;
+  private trackGraphics!: Phaser.GameObjects.Graphics;
+  private enemyMarker!: Phaser.GameObjects.Image;
+  private villageMarker!: Phaser.GameObjects.Image;
+  private enemyRoster!: Phaser.GameObjects.Container;
+  private enemyDetailsText!: Phaser.GameObjects.Text;
+  private markerTween: Phaser.Tweens.Tween | null = null;
   private lastKnownDay: number = 1;
+  private lastKnownDefense: number = 0;
+  private lastKnownDistance: number = 0;
+  private lastKnownWaveIndex: number = 0;
+  private displayedDistance: number = 0;
   private panel: Phaser.GameObjects.NineSlice;
+  private panelX: number;
+  private panelY: number;
+  private panelWidth: number;
+  private panelHeight: number;
+  
+  // Track layout properties
+  private trackStartX: number;
+  private trackEndX: number;
+  private trackY: number;
+  private trackHeight: number = 12;
+  private markerSize: number = 28;
+  
+  // Enemy roster layout properties
+  private rosterX: number;
+  private enemyIconSize: number = 24;
+  private enemyEntrySpacing: number = 56;
   
   /**
    * Create a new invasion renderer
    * @param scene The Phaser scene
    * @param invasionService The invasion service
+   * @param buildingService The building service, used to show the village defense
    * @param x X position of the panel
    * @param y Y position of the panel
    * @param width Width of the panel
@@ -23,6 +60,7 @@ export class InvasionRenderer {
   constructor(
     scene: Phaser.Scene,
     invasionService: InvasionService,
+    buildingService: BuildingService,
     x: number,
     y: number,
     width: number,
@@ -30,6 +68,17 @@ export class InvasionRenderer {
   ) {
     this.scene = scene;
     this.invasionService = invasionService;
+    this.buildingService = buildingService;
+    this.panelX = x;
+    this.panelY = y;
+    this.panelWidth = width;
+    this.panelHeight = height;
+    
+    // The enemy roster and the track sit between the day and wave on the left and the forecast on the right
+    this.rosterX = x + 240;
+    this.trackStartX = x + 430;
+    this.trackEndX = x + width - 300;
+    this.trackY = y + height / 2;
     
     // Create the panel background using 9-slice
     this.panel = this.scene.add['nineslice'](
@@ -48,24 +97,384 @@ export class InvasionRenderer {
     // Set the origin to the top-left corner
     this.panel.setOrigin(0, 0);
     
-    // Add the panel title with current day
+    // Add the current day and the upcoming wave on the left side
     this.lastKnownDay = this.invasionService.getCurrentDay();
-    this.invasionTitle = this.scene.add.text(x + width / 2, y + height / 2, `Invasion progress track: day ${this.lastKnownDay}`, {
-      fontSize: '24px',
+    this.dayText = this.scene.add.text(x + 30, this.trackY - 10, `Day ${this.lastKnownDay}`, {
+      fontSize: '16px',
       color: '#ffffff'
     });
-    this.invasionTitle.setOrigin(0.5, 0.5);
+    this.dayText.setOrigin(0, 0.5);
+    
+    this.waveText = this.scene.add.text(x + 30, this.trackY + 10, this.getWaveText(), {
+      fontSize: '16px',
+      color: '#ff9999'
+    });
+    this.waveText.setOrigin(0, 0.5);
+    
+    this.createEnemyRoster();
+    this.createTrack();
+    
+    // Add the arrival forecast and the village defense against the invasion strength on the right side
+    this.forecastText = this.scene.add.text(x + width - 30, this.trackY - 10, this.getForecastText(), {
+      fontSize: '16px',
+      color: '#ff9999'
+    });
+    this.forecastText.setOrigin(1, 0.5);
+    
+    this.lastKnownDefense = this.getCurrentDefense();
+    this.defenseText = this.scene.add.text(x + width - 30, this.trackY + 10, this.getDefenseText(), {
+      fontSize: '16px',
+      color: '#ffffff'
+    });
+    this.defenseText.setOrigin(1, 0.5);
+    
+    // Animate the enemy marker when the invasion moves
+    this.invasionService.on(InvasionServiceEvents.INVASION_PROGRESSED, this.onInvasionProgressed, this);
+    this.invasionService.on(InvasionServiceEvents.INVASION_DELAYED, this.onInvasionDelayed, this);
+    this.invasionService.on(InvasionServiceEvents.WAVE_STARTED, this.onWaveStarted, this);
+  }
+  
+  /**
+   * Create the row of enemy icons of the upcoming wave
+   * Hovering an enemy shows its strength and traits below the panel
+   */
+  private createEnemyRoster(): void {
+    this.enemyRoster = this.scene.add.container(this.rosterX, this.trackY);
+    
+    this.enemyDetailsText = this.scene.add.text(this.rosterX, this.panelY + this.panelHeight + 5, '', {
+      fontSize: '16px',
+      color: '#ffffff',
+      backgroundColor: '#000000',
+      padding: { x: 8, y: 4 }
+    });
+    this.enemyDetailsText.setDepth(2000);
+    this.enemyDetailsText.setVisible(false);
+    
+    this.refreshEnemyRoster();
+  }
+  
+  /**
+   * Rebuild the enemy icons for the upcoming wave
+   */
+  private refreshEnemyRoster(): void {
+    this.enemyRoster.removeAll(true);
+    this.enemyDetailsText.setVisible(false);
+    
+    const enemyRegistry = EnemyRegistry.getInstance();
+    
+    this.invasionService.getUpcomingEnemies().forEach((entry, index) => {
+      const enemy = enemyRegistry.getEnemyConfig(entry.enemyId);
+      if (!enemy) return;
+      
+      const entryX = index * this.enemyEntrySpacing;
+      
+      const icon = this.scene.add.image(entryX + this.enemyIconSize / 2, 0, enemy.image);
+      icon.setDisplaySize(this.enemyIconSize, this.enemyIconSize);
+      icon.setInteractive({ useHandCursor: true });
+      icon.on('pointerover', () => this.showEnemyDetails(enemy, this.rosterX + entryX));
+      icon.on('pointerout', () => this.enemyDetailsText.setVisible(false));
+      
+      const count = this.scene.add.text(entryX + this.enemyIconSize + 2, 0, `x${entry.count}`, {
+        fontSize: '14px',
+        color: '#ffffff',
+        fontStyle: 'bold'
+      });
+      count.setOrigin(0, 0.5);
+      
+      this.enemyRoster.add([icon, count]);
+    });
+  }
+  
+  /**
+   * Show the strength and traits of an enemy below the panel
+   * @param enemy The enemy to describe
+   * @param x X position of the details
+   */
+  private showEnemyDetails(enemy: EnemyConfig, x: number): void {
+    const buildingRegistry = BuildingRegistry.getInstance();
+    const traits = enemy.traits.map(trait =>
+      describeEnemyTrait(trait, buildingRegistry.getBuildingConfig(trait.buildingId)?.name || trait.buildingId)
+    );
+    
+    const lines = [`${enemy.name} - strength ${enemy.strength}`, enemy.description, ...traits];
+    this.enemyDetailsText.setText(lines.join('\n'));
+    this.enemyDetailsText.setX(x);
+    this.enemyDetailsText.setVisible(true);
+  }
+  
+  /**
+   * Create the track bar and the village and enemy markers
+   */
+  private createTrack(): void {
+    this.trackGraphics = this.scene.add.graphics();
+    
+    this.villageMarker = this.scene.add.image(this.trackEndX, this.trackY, 'invasion_village_marker');
+    this.villageMarker.setDisplaySize(this.markerSize, this.markerSize);
+    
+    this.lastKnownDistance = this.invasionService.getCurrentDistance();
+    this.lastKnownWaveIndex = this.invasionService.getCurrentWaveIndex();
+    this.displayedDistance = this.lastKnownDistance;
+    
+    this.enemyMarker = this.scene.add.image(this.getTrackX(this.displayedDistance), this.trackY, 'invasion_enemy_marker');
+    this.enemyMarker.setDisplaySize(this.markerSize, this.markerSize);
+    
+    this.drawTrack();
+  }
+  
+  /**
+   * Get the x position on the track for a remaining distance
+   * The invasion starts on the left and the village is on the right
+   * @param distance Remaining distance to the village
+   */
+  private getTrackX(distance: number): number {
+    const initialDistance = Math.max(this.invasionService.getInitialDistance(), 1);
+    const progress = Phaser.Math.Clamp(1 - distance / initialDistance, 0, 1);
+    return this.trackStartX + progress * (this.trackEndX - this.trackStartX);
+  }
+  
+  /**
+   * Redraw the track bar, the covered part and the tick marks for the displayed distance
+   */
+  private drawTrack(): void {
+    const trackWidth = this.trackEndX - this.trackStartX;
+    const top = this.trackY - this.trackHeight / 2;
+    const markerX = this.getTrackX(this.displayedDistance);
+    
+    this.trackGraphics.clear();
+    
+    // Background of the whole distance
+    this.trackGraphics.fillStyle(0x222222, 0.8);
+    this.trackGraphics.fillRoundedRect(this.trackStartX, top, trackWidth, this.trackHeight, 4);
+    
+    // Distance already covered by the invasion
+    if (markerX > this.trackStartX) {
+      this.trackGraphics.fillStyle(0xcc3333, 1);
+      this.trackGraphics.fillRoundedRect(this.trackStartX, top, markerX - this.trackStartX, this.trackHeight, 4);
+    }
+    
+    // A tick for every step the wave is forecast to take, taking speed changes into account
+    this.trackGraphics.lineStyle(2, 0xffffff, 0.6);
+    this.invasionService.getForecastDistances()
+      .filter(distance => distance > 0)
+      .forEach(distance => {
+        const tickX = this.getTrackX(distance);
+        this.trackGraphics.lineBetween(tickX, top - 4, tickX, top + this.trackHeight + 4);
+      });
+    
+    this.trackGraphics.lineStyle(2, 0x000000, 1);
+    this.trackGraphics.strokeRoundedRect(this.trackStartX, top, trackWidth, this.trackHeight, 4);
+    
+    this.enemyMarker.setX(markerX);
+  }
+  
+  /**
+   * Animate the enemy marker from the displayed distance to the current distance
+   * @param duration Duration of the animation in milliseconds
+   */
+  private animateToDistance(duration: number): void {
+    const targetDistance = this.invasionService.getCurrentDistance();
+    this.lastKnownDistance = targetDistance;
+    
+    if (this.markerTween) {
+      this.markerTween.stop();
+    }
+    
+    this.markerTween = this.scene.tweens.addCounter({
+      from: this.displayedDistance,
+      to: targetDistance,
+      duration: duration,
+      ease: 'Cubic.easeInOut',
+      onUpdate: (tween) => {
+        this.displayedDistance = tween.getValue();
+        this.drawTrack();
+      },
+      onComplete: () => {
+        this.markerTween = null;
+      }
+    });
+    
+    this.forecastText.setText(this.getForecastText());
+  }
+  
+  /**
+   * Handler for when the invasion moves closer to the village
+   */
+  private onInvasionProgressed(): void {
+    this.animateToDistance(600);
+    
+    // Give the marker a short bump so the step is noticeable
+    this.scene.tweens.add({
+      targets: this.enemyMarker,
+      scaleX: this.enemyMarker.scaleX * 1.3,
+      scaleY: this.enemyMarker.scaleY * 1.3,
+      duration: 150,
+      yoyo: true
+    });
+  }
+  
+  /**
+   * Handler for when the invasion is delayed
+   * Moves the marker back, shows a floating text with the number of days gained and flashes the panel
+   * @param amount Distance the invasion was pushed back by
+   */
+  private onInvasionDelayed(amount: number): void {
+    this.animateToDistance(800);
+    
+    const days = Math.round(amount / this.invasionService.getSpeedPerTurn());
+    const label = days > 0 ? `Invasion delayed by ${days} day${days === 1 ? '' : 's'}!` : 'Invasion delayed!';
+    this.showFloatingText(label, '#66ff66');
+    
+    // Briefly tint the panel green
+    this.panel.setTint(0x66ff66);
+    this.scene.time.delayedCall(300, () => this.panel.clearTint());
+  }
+  
+  /**
+   * Handler for when the next wave starts marching after the previous one was repelled
+   * Resets the track to the starting distance of the new wave
+   * @param wave The wave that started marching
+   * @param waveIndex Index of the wave
+   */
+  private onWaveStarted(wave: InvasionWaveConfig, waveIndex: number): void {
+    if (this.markerTween) {
+      this.markerTween.stop();
+      this.markerTween = null;
+    }
+    
+    this.lastKnownDistance = this.invasionService.getCurrentDistance();
+    this.lastKnownWaveIndex = waveIndex;
+    this.displayedDistance = this.lastKnownDistance;
+    this.drawTrack();
+    this.waveText.setText(this.getWaveText());
+    this.forecastText.setText(this.getForecastText());
+    this.refreshEnemyRoster();
+    
+    this.showFloatingText(`Wave repelled! Wave ${waveIndex + 1}: ${wave.name} is marching`, '#ffdd66');
+  }
+  
+  /**
+   * Show a text below the panel that floats down and fades out
+   * @param label The text to show
+   * @param color Color of the text
+   */
+  private showFloatingText(label: string, color: string): void {
+    const floatingText = this.scene.add.text(
+      this.panelX + this.panelWidth / 2,
+      this.panelY + this.panelHeight + 10,
+      label,
+      {
+        fontSize: '22px',
+        color: color,
+        fontStyle: 'bold',
+        stroke: '#000000',
+        strokeThickness: 4
+      }
+    );
+    floatingText.setOrigin(0.5, 0);
+    floatingText.setDepth(2000);
+    
+    this.scene.tweens.add({
+      targets: floatingText,
+      y: floatingText.y + 30,
+      alpha: 0,
+      duration: 1500,
+      ease: 'Cubic.easeIn',
+      onComplete: () => floatingText.destroy()
+    });
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public destroy(): void {
+    this.invasionService.off(InvasionServiceEvents.INVASION_PROGRESSED, this.onInvasionProgressed, this);
+    this.invasionService.off(InvasionServiceEvents.INVASION_DELAYED, this.onInvasionDelayed, this);
+    this.invasionService.off(InvasionServiceEvents.WAVE_STARTED, this.onWaveStarted, this);
+    if (this.markerTween) {
+      this.markerTween.stop();
+    }
+    this.panel.destroy();
+    this.dayText.destroy();
+    this.waveText.destroy();
+    this.forecastText.destroy();
+    this.defenseText.destroy();
+    this.trackGraphics.destroy();
+    this.enemyMarker.destroy();
+    this.villageMarker.destroy();
+    this.enemyRoster.destroy();
+    this.enemyDetailsText.destroy();
+  }
+  
+  /**
+   * Get the text naming the upcoming wave
+   */
+  private getWaveText(): string {
+    const waveCount = this.invasionService.getWaveCount();
+    const waveName = this.invasionService.getUpcomingWave().name;
+    if (waveCount === 1) {
+      return waveName;
+    }
+    return `Wave ${this.invasionService.getCurrentWaveIndex() + 1}/${waveCount}: ${waveName}`;
+  }
+  
+  /**
+   * Get the text forecasting when the invasion arrives at the village
+   */
+  private getForecastText(): string {
+    const daysLeft = this.invasionService.getDaysUntilArrival();
+    if (!isFinite(daysLeft)) {
+      return 'The invasion is not moving';
+    }
+    if (daysLeft <= 0) {
+      return 'The invasion has arrived!';
+    }
+    return `Arrives on day ${this.invasionService.getForecastArrivalDay()} (in ${daysLeft} day${daysLeft === 1 ? '' : 's'})`;
+  }
+  
+  /**
+   * Get the village defense against the enemies of the upcoming wave
+   */
+  private getCurrentDefense(): number {
+    return this.buildingService.getTotalDefense(this.invasionService.getUpcomingEnemyTraits());
+  }
+  
+  /**
+   * Get the text comparing the village defense with the invasion strength
+   */
+  private getDefenseText(): string {
+    return `Defense: ${this.lastKnownDefense} | Invasion strength: ${this.invasionService.getDifficulty()}`;
   }
   
   /**
    * Update the renderer
    */
   public update(): void {
-    // Update invasion title if day has changed
+    // Update the day and forecast if the day has changed
     const currentDay = this.invasionService.getCurrentDay();
     if (currentDay !== this.lastKnownDay) {
       this.lastKnownDay = currentDay;
-      this.invasionTitle.setText(`Invasion progress track: day ${currentDay}`);
+      this.dayText.setText(`Day ${currentDay}`);
+      this.forecastText.setText(this.getForecastText());
+    }
+    
+    // Jump to the current distance if it changed without an event, e.g. when a saved game is restored
+    const currentDistance = this.invasionService.getCurrentDistance();
+    const currentWaveIndex = this.invasionService.getCurrentWaveIndex();
+    if ((currentDistance !== this.lastKnownDistance || currentWaveIndex !== this.lastKnownWaveIndex) && !this.markerTween) {
+      this.lastKnownDistance = currentDistance;
+      this.lastKnownWaveIndex = currentWaveIndex;
+      this.displayedDistance = currentDistance;
+      this.drawTrack();
+      this.waveText.setText(this.getWaveText());
+      this.forecastText.setText(this.getForecastText());
+      this.refreshEnemyRoster();
+    }
+    
+    // Update the defense text if buildings have changed
+    const currentDefense = this.getCurrentDefense();
+    if (currentDefense !== this.lastKnownDefense) {
+      this.lastKnownDefense = currentDefense;
+      this.defenseText.setText(this.getDefenseText());
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,289 @@
+import Phaser from 'phaser';
+import { LevelConfig } from '../entities/Level';
+import { LevelProgress } from '../services/CampaignService';
+import { CardRegistry } from '../services/CardRegistry';
+import { EnemyRegistry } from '../services/EnemyRegistry';
+import { LevelRegistry } from '../services/LevelRegistry';
+
+export const LEVEL_CARD_WIDTH = 340;
+export const LEVEL_CARD_HEIGHT = 330;
+
+/**
+ * Component for rendering a level entry in the level selection screen
+ */
+export class LevelCardRenderer {
+  private scene: Phaser.Scene;
+  private container: Phaser.GameObjects.Container;
+  private background: Phaser.GameObjects.NineSlice;
+  private highlight: Phaser.GameObjects.Graphics;
+  private level: LevelConfig;
+  private callback: ((level: LevelConfig) => void) | null;
+  private isSelected: boolean = false;
+  private progress: LevelProgress;
+  private locked: boolean;
+
+  // Starting deck preview properties
+  private portraitWidth: number = 56;
+  private portraitHeight: number = 72;
+  private portraitSpacing: number = 12;
+
+  /**
+   * Create a new LevelCardRenderer
+   * @param scene The Phaser scene to render in
+   * @param level The level configuration to render
+   * @param x X position of the card center
+   * @param y Y position of the card center
+   * @param progress Campaign progress of the level
+   * @param locked Whether the level prerequisites are not completed yet
+   * @param callback Callback when the card is clicked, ignored for locked levels
+   */
+  constructor(
+    scene: Phaser.Scene,
+    level: LevelConfig,
+    x: number,
+    y: number,
+    progress: LevelProgress,
+    locked: boolean,
+    callback: ((level: LevelConfig) => void) | null = null
+  ) {
+    this.scene = scene;
+    this.level = level;
+    this.progress = progress;
+    this.locked = locked;
+    this.callback = locked ? null : callback;
+
+    this.container = this.scene.add.container(x, y);
+
+    this.highlight = this.createHighlight();
+    this.background = this.createBackground();
+    this.container.add([this.highlight, this.background]);
+
+    this.createLevelInfo();
+    this.createStartingDeckPreview();
+    this.createStars();
+
+    if (this.locked) {
+      this.createLockOverlay();
+    }
+  }
+
+  /**
+   * Create the card background using nineslice
+   */
+  private createBackground(): Phaser.GameObjects.NineSlice {
+    const background = this.scene.add['nineslice'](
+      0, 0,
+      'panel_wood_corners_metal',
+      undefined,
+      LEVEL_CARD_WIDTH,
+      LEVEL_CARD_HEIGHT,
+      20, 20, 20, 20
+    );
+    background.setOrigin(0.5, 0.5);
+
+    if (this.callback) {
+      background.setInteractive({ useHandCursor: true });
+      background.on('pointerover', () => this.container.setScale(1.03));
+      background.on('pointerout', () => this.container.setScale(1.0));
+      background.on('pointerdown', () => this.callback?.(this.level));
+    }
+
+    return background;
+  }
+
+  /**
+   * Create the highlight effect for level selection
+   */
+  private createHighlight(): Phaser.GameObjects.Graphics {
+    const highlight = this.scene.add.graphics();
+    highlight.setVisible(false);
+
+    highlight.fillStyle(0x00aaff, 0.3);
+    highlight.fillRoundedRect(
+      -LEVEL_CARD_WIDTH / 2 - 10,
+      -LEVEL_CARD_HEIGHT / 2 - 10,
+      LEVEL_CARD_WIDTH + 20,
+      LEVEL_CARD_HEIGHT + 20,
+      16
+    );
+    highlight.lineStyle(3, 0x00aaff, 0.7);
+    highlight.strokeRoundedRect(
+      -LEVEL_CARD_WIDTH / 2 - 10,
+      -LEVEL_CARD_HEIGHT / 2 - 10,
+      LEVEL_CARD_WIDTH + 20,
+      LEVEL_CARD_HEIGHT + 20,
+      16
+    );
+
+    return highlight;
+  }
+
+  /**
+   * Create the name, difficulty, description and invasion texts
+   */
+  private createLevelInfo(): void {
+    const top = -LEVEL_CARD_HEIGHT / 2;
+
+    const name = this.scene.add.text(0, top + 30, this.level.name, {
+      fontSize: '24px',
+      color: '#ffffff',
+      fontStyle: 'bold'
+    });
+    name.setOrigin(0.5, 0.5);
+
+    const difficulty = this.scene.add.text(0, top + 58, `Difficulty: ${this.level.difficulty}`, {
+      fontSize: '16px',
+      color: '#ffdd66'
+    });
+    difficulty.setOrigin(0.5, 0.5);
+
+    const description = this.scene.add.text(0, top + 95, this.level.description, {
+      fontSize: '15px',
+      color: '#ffffff',
+      align: 'center',
+      wordWrap: { width: LEVEL_CARD_WIDTH - 40 }
+    });
+    description.setOrigin(0.5, 0.5);
+
+    const invasion = this.scene.add.text(
+      0,
+      top + 135,
+      this.getInvasionSummary(),
+      {
+        fontSize: '14px',
+        color: '#ff9999'
+      }
+    );
+    invasion.setOrigin(0.5, 0.5);
+
+    this.container.add([name, difficulty, description, invasion]);
+  }
+
+  /**
+   * Get a short summary of the invasion waves of the level
+   */
+  private getInvasionSummary(): string {
+    const enemyRegistry = EnemyRegistry.getInstance();
+    const waves = this.level.invasionWaves;
+    const strengths = waves.map(wave => enemyRegistry.calculateWaveStrength(wave));
+    if (waves.length === 1) {
+      return `Invasion strength: ${strengths[0]}, distance: ${waves[0].distance}`;
+    }
+
+    return `${waves.length} waves, strength ${Math.min(...strengths)} to ${Math.max(...strengths)}`;
+  }
+
+  /**
+   * Create the preview of the cards the player starts the level with
+   */
+  private createStartingDeckPreview(): void {
+    const cardRegistry = CardRegistry.getInstance();
+    const entries = this.level.startingCards;
+
+    const label = this.scene.add.text(0, 10, 'Starting deck', {
+      fontSize: '16px',
+      color: '#ffffff'
+    });
+    label.setOrigin(0.5, 0.5);
+    this.container.add(label);
+
+    const rowWidth = entries.length * this.portraitWidth + (entries.length - 1) * this.portraitSpacing;
+    const startX = -rowWidth / 2 + this.portraitWidth / 2;
+    const portraitY = 70;
+
+    entries.forEach((entry, index) => {
+      const x = startX + index * (this.portraitWidth + this.portraitSpacing);
+      const cardConfig = cardRegistry.getCardConfig(entry.cardId);
+
+      if (cardConfig) {
+        const portrait = this.scene.add.image(x, portraitY, cardConfig.image);
+        portrait.setDisplaySize(this.portraitWidth, this.portraitHeight);
+        this.container.add(portrait);
+      }
+
+      const count = this.scene.add.text(x, portraitY + this.portraitHeight / 2 + 14, `x${entry.count}`, {
+        fontSize: '16px',
+        color: '#ffffff',
+        fontStyle: 'bold'
+      });
+      count.setOrigin(0.5, 0.5);
+      this.container.add(count);
+    });
+  }
+
+  /**
+   * Create the row of stars earned in this level
+   */
+  private createStars(): void {
+    const goalCount = this.level.starGoals.length;
+    if (goalCount === 0) return;
+
+    const starSize = 24;
+    const starSpacing = 6;
+    const rowWidth = goalCount * starSize + (goalCount - 1) * starSpacing;
+    const startX = -rowWidth / 2 + starSize / 2;
+    const y = LEVEL_CARD_HEIGHT / 2 - 25;
+
+    for (let i = 0; i < goalCount; i++) {
+      const star = this.scene.add.image(
+        startX + i * (starSize + starSpacing),
+        y,
+        i < this.progress.stars ? 'star_filled' : 'star_empty'
+      );
+      star.setDisplaySize(starSize, starSize);
+      this.container.add(star);
+    }
+  }
+
+  /**
+   * Cover the card with an overlay explaining which levels unlock it
+   */
+  private createLockOverlay(): void {
+    const overlay = this.scene.add.rectangle(0, 0, LEVEL_CARD_WIDTH, LEVEL_CARD_HEIGHT, 0x000000, 0.6);
+    overlay.setOrigin(0.5, 0.5);
+
+    const levelRegistry = LevelRegistry.getInstance();
+    const prerequisiteNames = this.level.prerequisites
+      .map(levelId => levelRegistry.getLevelConfig(levelId)?.name || levelId);
+
+    const lockText = this.scene.add.text(0, 0, `Locked\n\nWin ${prerequisiteNames.join(', ')} to unlock`, {
+      fontSize: '20px',
+      color: '#ffffff',
+      fontStyle: 'bold',
+      align: 'center',
+      wordWrap: { width: LEVEL_CARD_WIDTH - 40 }
+    });
+    lockText.setOrigin(0.5, 0.5);
+
+    this.container.add([overlay, lockText]);
+  }
+
+  /**
+   * Set selection state
+   */
+  public setSelected(selected: boolean): void {
+    this.isSelected = selected;
+    this.highlight.setVisible(this.isSelected);
+  }
+
+  /**
+   * Get the level rendered by this card
+   */
+  public getLevel(): LevelConfig {
+    return this.level;
+  }
+
+  /**
+   * Get the container holding the card
+   */
+  public getContainer(): Phaser.GameObjects.Container {
+    return this.container;
+  }
+
+  /**
+   * Clean up resources
+   */
+  public destroy(): void {
+    this.container.destroy();
+  }
+}
@@ -0,0 +1,64 @@
+import Phaser from 'phaser';
+
+/**
+ * Renders a button of the menu scenes, e.g. the level select and results screens
+ */
+export class MenuButtonRenderer {
+  private container: Phaser.GameObjects.Container;
+
+  private buttonWidth: number = 200;
+  private buttonHeight: number = 50;
+
+  /**
+   * Create a new MenuButtonRenderer
+   * @param scene The Phaser scene to render in
+   * @param x X position of the button center
+   * @param y Y position of the button center
+   * @param label Text on the button
+   * @param onClick Callback when the button is clicked
+   */
+  constructor(scene: Phaser.Scene, x: number, y: number, label: string, onClick: () => void) {
+    this.container = scene.add.container(x, y);
+
+    const background = scene.add['nineslice'](
+      0,
+      0,
+      'panel_wood_corners_metal',
+      undefined,
+      this.buttonWidth,
+      this.buttonHeight,
+      20,
+      20,
+      20,
+      20
+    );
+    background.setOrigin(0.5, 0.5);
+
+    const text = scene.add.text(0, 0, label, {
+      fontSize: '24px',
+      color: '#ffffff'
+    });
+    text.setOrigin(0.5);
+
+    this.container.add([background, text]);
+
+    background.setInteractive({ useHandCursor: true })
+      .on('pointerdown', onClick);
+
+    // Button hover effects
+    background.on('pointerover', () => {
+      this.container.setScale(1.05);
+    });
+
+    background.on('pointerout', () => {
+      this.container.setScale(1.0);
+    });
+  }
+
+  /**
+   * Get the container holding the button elements
+   */
+  public getContainer(): Phaser.GameObjects.Container {
+    return this.container;
+  }
+}
@@ -1,8 +1,13 @@
 import Phaser from 'phaser';
+import { BuildingTrigger } from '../entities/Building';
 import { Card, CardEvents } from '../entities/Card';
 import { PlayerHand } from '../entities/PlayerHand';
+import { RaceBonus } from '../entities/RaceSynergy';
+import { ResourceType } from '../entities/Types';
+import { BattleService } from '../services/BattleService';
 import { BuildingService, BuildingServiceEvents } from '../services/BuildingService';
 import { InvasionService } from '../services/InvasionService';
+import { RaceSynergyRegistry } from '../services/RaceSynergyRegistry';
 import { RecruitService, RecruitServiceEvents } from '../services/RecruitService';
 import { ResourceService } from '../services/ResourceService';
 import { StickerShopService } from '../services/StickerShopService';
@@ -34,6 +39,7 @@ export class PlayerHandRenderer extends Phaser.Events.EventEmitter {
   private tavernService: TavernService;
   private buildingService: BuildingService;
   private recruitService: RecruitService;
+  private battleService: BattleService;
   private panelWidth: number;
   private panelHeight: number;
   private panelX: number;
@@ -64,6 +70,7 @@ export class PlayerHandRenderer extends Phaser.Events.EventEmitter {
    * @param buildingService Building service for building menu state
    * @param tavernService Tavern service for tavern state
    * @param recruitService Recruit service for recruit agency state
+   * @param battleService Battle service for resolving the invasion
    */
   constructor(
     scene: Phaser.Scene, 
@@ -77,7 +84,8 @@ export class PlayerHandRenderer extends Phaser.Events.EventEmitter {
     stickerShopService: StickerShopService,
     buildingService: BuildingService,
     tavernService: TavernService,
-    recruitService: RecruitService
+    recruitService: RecruitService,
+    battleService: BattleService
   ) {
     super();
     this.scene = scene;
@@ -92,6 +100,7 @@ export class PlayerHandRenderer extends Phaser.Events.EventEmitter {
     this.tavernService = tavernService;
     this.buildingService = buildingService;
     this.recruitService = recruitService;
+    this.battleService = battleService;
     
     // Get initial cards from hand
     this.currentCards = playerHand.getCards();
@@ -168,16 +177,18 @@ export class PlayerHandRenderer extends Phaser.Events.EventEmitter {
     // First, remove any existing event listeners from old cards
     this.currentCards.forEach(card => {
       card.off(CardEvents.STICKER_APPLIED, this.onCardStickerApplied, this);
+      card.off(CardEvents.STICKER_PEELED, this.onCardStickerApplied, this);
     });
     
     // Then add event listeners to the new cards
     cards.forEach(card => {
       card.on(CardEvents.STICKER_APPLIED, this.onCardStickerApplied, this);
+      card.on(CardEvents.STICKER_PEELED, this.onCardStickerApplied, this);
     });
   }
   
   /**
-   * Handler for when a sticker is applied to a card
+   * Handler for when a sticker is applied to or peeled from a card
    */
   private onCardStickerApplied(): void {
     // Re-render all cards to reflect the new sticker - force render since the card object itself hasn't changed
@@ -434,6 +445,9 @@ export class PlayerHandRenderer extends Phaser.Events.EventEmitter {
       const card = this.currentCards[index];
       const uniqueId = card.unique_id;
       
+      // Exhausted cards can't be played
+      if (!card.canBePlayed()) return;
+      
       // Toggle selection state
       if (this.selectedCards.has(uniqueId)) {
         this.selectedCards.delete(uniqueId);
@@ -452,47 +466,54 @@ export class PlayerHandRenderer extends Phaser.Events.EventEmitter {
   }
   
   /**
-   * Calculate the total invention value of selected cards
+   * Calculate the total invention value of selected cards, including race bonuses
    * @returns The total invention value of selected cards
    */
   public getSelectedInventionValue(): number {
-    let total = 0;
-    
-    this.currentCards.forEach(card => {
-      if (this.selectedCards.has(card.unique_id)) {
-        total += card.getInventionValue();
-      }
-    });
-    
-    return total;
+    return this.getSelectedResourceValue(ResourceType.Invention);
   }
 
   public getSelectedPowerValue(): number {
-    let total = 0;
-    
-    this.currentCards.forEach(card => {
-      if (this.selectedCards.has(card.unique_id)) {
-        total += card.getPowerValue();
-      }
-    });
-    
-    return total;
+    return this.getSelectedResourceValue(ResourceType.Power);
   }
 
   public getSelectedConstructionValue(): number {
-    let total = 0;
-    
-    this.currentCards.forEach(card => {
-      if (this.selectedCards.has(card.unique_id)) {
-        total += card.getConstructionValue();
-      }
-    });
-    
-    return total;
+    return this.getSelectedResourceValue(ResourceType.Construction);
+  }
+
+  /**
+   * Calculate the total value of selected cards for a resource, including race bonuses
+   * @param resourceType The resource the cards would be played for
+   */
+  private getSelectedResourceValue(resourceType: ResourceType): number {
+    const cardsValue = this.getSelectedCards()
+      .reduce((total, card) => total + card.getResourceValue(resourceType), 0);
+    const bonusValue = this.getSelectedRaceBonuses(resourceType)
+      .reduce((total, bonus) => total + bonus.value, 0);
+
+    return cardsValue + bonusValue;
+  }
+
+  /**
+   * Get the race synergies and building buffs earned by the selected cards
+   * @param resourceType The resource the cards would be played for
+   */
+  public getSelectedRaceBonuses(resourceType: ResourceType): RaceBonus[] {
+    const selectedCards = this.getSelectedCards();
+    if (selectedCards.length === 0) return [];
+
+    return [
+      ...RaceSynergyRegistry.getInstance().getSynergyBonuses(selectedCards, resourceType),
+      ...this.buildingService.getRaceBuffBonuses(selectedCards, resourceType)
+    ];
+  }
+
+  /**
+   * Get the selected cards in hand order
+   */
+  public getSelectedCards(): Card[] {
+    return this.currentCards.filter(card => this.selectedCards.has(card.unique_id));
   }
-  
-  
-  
   
   /**
    * Clear selection from all cards
@@ -538,9 +559,11 @@ export class PlayerHandRenderer extends Phaser.Events.EventEmitter {
       this.selectedCards.delete(id);
     });
     
-    // Add cards to select to selection
+    // Add cards to select to selection, skipping cards that can't be played
     selectSet.forEach(id => {
-      this.selectedCards.add(id);
+      if (this.currentCards.find(card => card.unique_id === id)?.canBePlayed()) {
+        this.selectedCards.add(id);
+      }
     });
     
     // Update visual state of all card renderers
@@ -613,23 +636,35 @@ export class PlayerHandRenderer extends Phaser.Events.EventEmitter {
       this.resourceService.resetResourcesEndOfDay();
     }
     
-    // 1. Progress the invasion if service exists
+    // 1. Count down the statuses of the cards, before the battle so its injuries last their full days
+    this.playerHand.tickCardStatuses();
+    
+    // 2. Progress the invasion if service exists
     if (this.invasionService) {
       this.invasionService.progressInvasion();
       if (this.invasionService.hasInvasionArrived()) {
-        const totalPlayerPower = this.playerHand.calculateTotalPower();
-        console.log(`Invasion arrived. Total power: ${totalPlayerPower}`);
+        // Arrival effects are applied before the battle so that they can change its outcome
+        this.buildingService.triggerEffects(BuildingTrigger.OnInvasionArrival);
+        const result = this.battleService.resolveBattle();
+        if (result.levelOver) {
+          // The run ends with the last battle, no need to draw a new hand
+          this.buildingService.triggerEffects(BuildingTrigger.OnDayEnd);
+          return;
+        }
       }
     }
     
-    // 2. Shuffle discard into deck and draw new hand
+    // 3. Shuffle discard into deck and draw new hand
     this.playerHand.discardHand();
+
+    // Building effects of the passed day are applied after the discard, so that their resources are kept
+    this.buildingService.triggerEffects(BuildingTrigger.OnDayEnd);
     this.playerHand.shuffleDiscardIntoTheDeck();
     this.playerHand.drawUpToLimit();
 
     this.resourceService.processResourcesFromBuildings();
     
-    // 3. The updating of UI is handled by events now
+    // 4. The updating of UI is handled by events now
     this.updateButtonVisibility();
   }
   
@@ -651,6 +686,15 @@ export class PlayerHandRenderer extends Phaser.Events.EventEmitter {
     });
   }
   
+  /**
+   * Play cards from the hand by their unique_ids, applying their effects
+   * @param uniqueIds Array of unique_ids to play
+   * @param resourceType The resource the cards are played for
+   */
+  public playCardsByUniqueIds(uniqueIds: string[], resourceType?: ResourceType): void {
+    this.playerHand.playCardsByUniqueIds(uniqueIds, resourceType);
+  }
+  
   /**
    * Clean up resources when the renderer is no longer needed
    */
@@ -691,6 +735,7 @@ export class PlayerHandRenderer extends Phaser.Events.EventEmitter {
     // Unsubscribe from all card events
     this.currentCards.forEach(card => {
       card.off(CardEvents.STICKER_APPLIED, this.onCardStickerApplied, this);
+      card.off(CardEvents.STICKER_PEELED, this.onCardStickerApplied, this);
     });
     
     // Clear card objects
@@ -15,6 +15,7 @@ export class ResourcePanelRenderer {
   private displayContainer: Phaser.GameObjects.Container;
   private resourcePanel!: Phaser.GameObjects.NineSlice;
   private selectionText!: Phaser.GameObjects.Text;
+  private bonusText!: Phaser.GameObjects.Text;
   private acquiredText!: Phaser.GameObjects.Text;
   private selectAllButton!: Phaser.GameObjects.NineSlice;
   private selectAllButtonText!: Phaser.GameObjects.Text;
@@ -119,6 +120,21 @@ export class ResourcePanelRenderer {
     );
     this.selectionText.setOrigin(0.5, 1);
     
+    // Add the explanation of the race bonuses included in the selection, above the panel
+    this.bonusText = this.scene.add.text(
+      marginX / 2,
+      handPanelY - 8,
+      '',
+      {
+        fontSize: '14px',
+        color: '#99ff99',
+        backgroundColor: '#000000',
+        padding: { x: 6, y: 4 }
+      }
+    );
+    this.bonusText.setOrigin(0, 1);
+    this.bonusText.setVisible(false);
+    
     // Add resource icon next to "Selected: X"
     const resourceIconKey = this.getResourceIconKey();
     this.selectedResourceIcon = this.scene.add.image(
@@ -301,6 +317,7 @@ export class ResourcePanelRenderer {
     // Add all elements to the display container
     this.displayContainer.add(this.resourcePanel);
     this.displayContainer.add(this.selectionText);
+    this.displayContainer.add(this.bonusText);
     this.displayContainer.add(this.selectedResourceIcon);
     this.displayContainer.add(this.acquiredText);
     this.displayContainer.add(this.resourceIcon);
@@ -395,10 +412,15 @@ export class ResourcePanelRenderer {
   
   /**
    * Update the selection text to show total selected resource value
+   * and explain the race bonuses it includes
    */
   private updateSelectionText(): void {
     const selectedValue = this.getSelectedResourceValue();
     this.selectionText.setText(`Selected: ${selectedValue}`);
+    
+    const bonuses = this.playerHandRenderer.getSelectedRaceBonuses(this.resourceType);
+    this.bonusText.setText(bonuses.map(bonus => `+${bonus.value} ${bonus.source}`).join('\n'));
+    this.bonusText.setVisible(bonuses.length > 0);
   }
   
   /**
@@ -429,19 +451,7 @@ export class ResourcePanelRenderer {
     
     // Determine which cards to select and deselect based on resource value
     cards.forEach(card => {
-      let resourceValue = 0;
-      
-      switch (this.resourceType) {
-        case ResourceType.Power:
-          resourceValue = card.getPowerValue();
-          break;
-        case ResourceType.Construction:
-          resourceValue = card.getConstructionValue();
-          break;
-        case ResourceType.Invention:
-          resourceValue = card.getInventionValue();
-          break;
-      }
+      const resourceValue = card.getResourceValue(this.resourceType);
       
       if (resourceValue >= 1) {
         idsToSelect.push(card.unique_id);
@@ -471,8 +481,8 @@ export class ResourcePanelRenderer {
       cardIds: selectedCardIds
     });
     
-    // 4. Discard all selected cards using PlayerHandRenderer's method
-    this.playerHandRenderer.discardCardsByUniqueIds(selectedCardIds);
+    // 4. Play all selected cards using PlayerHandRenderer's method, which discards them and applies their effects
+    this.playerHandRenderer.playCardsByUniqueIds(selectedCardIds, this.resourceType);
     
     // 5. Deselect all cards
     this.playerHandRenderer.clearCardSelection();
@@ -629,6 +639,7 @@ export class ResourcePanelRenderer {
     // Destroy all UI elements
     safeDestroy(this.resourcePanel);
     safeDestroy(this.selectionText);
+    safeDestroy(this.bonusText);
     safeDestroy(this.acquiredText);
     safeDestroy(this.selectAllButton);
     safeDestroy(this.selectAllButtonText);
@@ -3,17 +3,20 @@ import { Card } from '../entities/Card';
 import { StickerConfig } from '../entities/Sticker';
 import { CardOverlayRendererEvents } from './CardOverlayRenderer';
 import { CardRenderer } from './CardRenderer';
+import { ConfirmDialogRenderer } from './ConfirmDialogRenderer';
 
 /**
  * Events emitted by the StickerApplicationOverlayRenderer
  */
 export enum StickerApplicationOverlayEvents {
   STICKER_APPLIED = 'sticker-applied',
+  STICKER_PEELED = 'sticker-peeled',
   CANCELLED = 'cancelled'
 }
 
 /**
  * Renders an overlay for applying stickers to specific slots on a card
+ * Without a sticker the overlay is used to peel a sticker from a slot instead
  */
 export class StickerApplicationOverlayRenderer extends Phaser.Events.EventEmitter {
   private scene: Phaser.Scene;
@@ -21,10 +24,11 @@ export class StickerApplicationOverlayRenderer extends Phaser.Events.EventEmitte
   private background: Phaser.GameObjects.NineSlice;
   private isVisible: boolean = false;
   private card: Card;
-  private sticker: StickerConfig;
+  private sticker: StickerConfig | null;
   private cardRenderer: CardRenderer | null = null;
   private closeButton: Phaser.GameObjects.Image;
   private title: Phaser.GameObjects.Text;
+  private slotMessage: Phaser.GameObjects.Text;
   private applyButton: Phaser.GameObjects.Container;
   private applyButtonBackground: Phaser.GameObjects.NineSlice = {} as Phaser.GameObjects.NineSlice;
   private applyButtonText: Phaser.GameObjects.Text = {} as Phaser.GameObjects.Text;
@@ -36,12 +40,12 @@ export class StickerApplicationOverlayRenderer extends Phaser.Events.EventEmitte
    * Create a new StickerApplicationOverlayRenderer
    * @param scene The Phaser scene to render in
    * @param card The card to apply stickers to
-   * @param sticker The sticker configuration to apply
+   * @param sticker The sticker configuration to apply, null to peel a sticker
    */
   constructor(
     scene: Phaser.Scene,
     card: Card,
-    sticker: StickerConfig
+    sticker: StickerConfig | null
   ) {
     super();
     
@@ -83,7 +87,7 @@ export class StickerApplicationOverlayRenderer extends Phaser.Events.EventEmitte
     this.title = this.scene.add.text(
       width / 2,
       30,
-      `Apply "${sticker.name}" Sticker`,
+      sticker ? `Apply "${sticker.name}" Sticker` : 'Select a Sticker to Peel',
       {
         fontSize: '24px',
         color: '#ffffff',
@@ -114,6 +118,18 @@ export class StickerApplicationOverlayRenderer extends Phaser.Events.EventEmitte
       this.closeButton.setScale(1.2);
     });
     
+    // Create a message explaining why a slot can't be used
+    this.slotMessage = this.scene.add.text(
+      width / 2,
+      height - 110,
+      '',
+      {
+        fontSize: '18px',
+        color: '#ff9999'
+      }
+    );
+    this.slotMessage.setOrigin(0.5, 0.5);
+    
     // Create Apply button (initially disabled)
     this.applyButton = this.createApplyButton(width / 2, height - 60);
     
@@ -122,6 +138,7 @@ export class StickerApplicationOverlayRenderer extends Phaser.Events.EventEmitte
       this.background,
       this.title,
       this.closeButton,
+      this.slotMessage,
       this.applyButton
     ]);
   }
@@ -151,7 +168,7 @@ export class StickerApplicationOverlayRenderer extends Phaser.Events.EventEmitte
     this.applyButtonText = this.scene.add.text(
       0, 
       0, 
-      'Apply', 
+      this.sticker ? 'Apply' : 'Peel', 
       {
         fontSize: '18px',
         color: '#cccccc'
@@ -176,8 +193,11 @@ export class StickerApplicationOverlayRenderer extends Phaser.Events.EventEmitte
     if (enabled) {
       this.applyButtonBackground.clearTint();
       this.applyButtonText.setColor('#ffffff');
+      
+      // Remove listeners of a previously selected slot
+      this.applyButtonBackground.removeAllListeners();
       this.applyButtonBackground.setInteractive({ useHandCursor: true })
-        .on('pointerdown', () => this.applySticker());
+        .on('pointerdown', () => this.confirmSelectedSlot());
       
       // Add hover effects with scaling instead of tint
       this.applyButtonBackground.on('pointerover', () => {
@@ -197,11 +217,51 @@ export class StickerApplicationOverlayRenderer extends Phaser.Events.EventEmitte
     }
   }
   
+  /**
+   * Ask for confirmation when a sticker on the selected slot would be destroyed
+   */
+  private confirmSelectedSlot(): void {
+    if (this.selectedSlotIndex === null) return;
+    
+    const existingSticker = this.card.slots[this.selectedSlotIndex]?.sticker;
+    if (!existingSticker) {
+      this.applySticker();
+      return;
+    }
+    
+    const message = this.sticker
+      ? `"${existingSticker.name}" will be destroyed and replaced by "${this.sticker.name}".`
+      : `"${existingSticker.name}" will be peeled off and destroyed.`;
+    
+    new ConfirmDialogRenderer(
+      this.scene,
+      message,
+      () => this.sticker ? this.applySticker() : this.peelSticker(),
+      undefined,
+      this.sticker ? 'Replace' : 'Peel'
+    );
+  }
+  
+  /**
+   * Peel the sticker from the selected slot
+   */
+  private peelSticker(): void {
+    if (this.selectedSlotIndex === null) return;
+    
+    const peeledSticker = this.card.peelSticker(this.selectedSlotIndex);
+    if (peeledSticker) {
+      this.emit(StickerApplicationOverlayEvents.STICKER_PEELED, peeledSticker, this.card, this.selectedSlotIndex);
+      
+      this.hide();
+      this.emit(CardOverlayRendererEvents.CLOSED);
+    }
+  }
+  
   /**
    * Apply the sticker to the selected slot
    */
   private applySticker(): void {
-    if (this.selectedSlotIndex !== null) {
+    if (this.sticker && this.selectedSlotIndex !== null) {
       // Use the Card's applySticker method
       const success = this.card.applySticker(this.sticker, this.selectedSlotIndex);
       
@@ -247,6 +307,8 @@ export class StickerApplicationOverlayRenderer extends Phaser.Events.EventEmitte
   private cleanup(): void {
     // Clear selection
     this.selectedSlotIndex = null;
+    this.slotMessage.setText('');
+    this.updateApplyButtonState(false);
     
     // Clean up card renderer
     if (this.cardRenderer) {
@@ -302,12 +364,24 @@ export class StickerApplicationOverlayRenderer extends Phaser.Events.EventEmitte
   }
   
   /**
-   * Select a slot to apply the sticker to
+   * Select a slot to apply the sticker to or to peel the sticker from
+   * Locked slots can't receive a sticker and empty slots have nothing to peel
    * @param slotIndex The index of the slot to select
    */
   private selectSlot(slotIndex: number): void {
-    this.selectedSlotIndex = slotIndex;
-    this.updateApplyButtonState(true);
+    const slot = this.card.slots[slotIndex];
+    if (!slot) return;
+    
+    let message = '';
+    if (this.sticker && !this.card.canApplySticker(slotIndex)) {
+      message = `"${slot.sticker?.name}" is locked, peel it at the workshop first`;
+    } else if (!this.sticker && !slot.sticker) {
+      message = 'This slot has no sticker to peel';
+    }
+    
+    this.slotMessage.setText(message);
+    this.selectedSlotIndex = message ? null : slotIndex;
+    this.updateApplyButtonState(!message);
   }
   
   /**
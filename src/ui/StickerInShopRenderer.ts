@@ -1,8 +1,14 @@
 import Phaser from 'phaser';
-import { StickerConfig } from '../entities/Sticker';
+import { StickerConfig, StickerFactory, StickerRarity } from '../entities/Sticker';
 import { ResourceType } from '../entities/Types';
 import { CostRenderer } from './CostRenderer';
 
+const rarityColors: Record<StickerRarity, string> = {
+  [StickerRarity.Common]: '#dddddd',
+  [StickerRarity.Uncommon]: '#66ccff',
+  [StickerRarity.Rare]: '#ffcc33'
+};
+
 /**
  * Renders an individual sticker in the sticker shop
  */
@@ -16,6 +22,7 @@ export class StickerInShopRenderer {
   private isSelected: boolean = false;
   private unaffordable: boolean = false;
   private costRenderer!: CostRenderer;
+  private stock: number;
   
   /**
    * Create a new sticker renderer
@@ -26,6 +33,7 @@ export class StickerInShopRenderer {
    * @param size Size of the sticker display
    * @param onClickCallback Optional callback for when sticker is clicked
    * @param unaffordable Whether the sticker is unaffordable
+   * @param stock How many of the sticker can still be bought
    */
   constructor(
     scene: Phaser.Scene,
@@ -34,13 +42,15 @@ export class StickerInShopRenderer {
     y: number,
     size: number,
     onClickCallback?: (stickerConfig: StickerConfig) => void,
-    unaffordable: boolean = false
+    unaffordable: boolean = false,
+    stock: number = 1
   ) {
     this.scene = scene;
     this.stickerConfig = stickerConfig;
     this.size = size;
     this.onClickCallback = onClickCallback;
     this.unaffordable = unaffordable;
+    this.stock = stock;
       
     this.container = this.scene.add.container(x, y);
     this.createStickerVisual();
@@ -57,6 +67,20 @@ export class StickerInShopRenderer {
     this.container.add(this.background);
     this.container.add(stickerImage);
     
+    // Wild stickers have no number in their art, so show their value on top
+    const wildValue = StickerFactory.fromConfig(this.stickerConfig).getWildValue();
+    if (wildValue > 0) {
+      const wildText = this.scene.add.text(0, 0, `${wildValue}`, {
+        fontSize: '24px',
+        color: '#ffffff',
+        fontStyle: 'bold',
+        stroke: '#000000',
+        strokeThickness: 4
+      });
+      wildText.setOrigin(0.5);
+      this.container.add(wildText);
+    }
+    
     this.costRenderer = new CostRenderer(
       this.scene, 
       this.stickerConfig.cost, 
@@ -70,6 +94,27 @@ export class StickerInShopRenderer {
     
     this.container.add(this.costRenderer.getContainer());
     
+    // Show the rarity and the remaining stock above the sticker
+    const rarityName = this.stickerConfig.rarity.charAt(0).toUpperCase() + this.stickerConfig.rarity.slice(1);
+    const stockText = this.scene.add.text(
+      0,
+      -this.size / 2 - 12,
+      this.stock > 0 ? `${rarityName} x${this.stock}` : 'Sold out',
+      {
+        fontSize: '14px',
+        color: this.stock > 0 ? rarityColors[this.stickerConfig.rarity] : '#ff6666',
+        fontStyle: 'bold'
+      }
+    );
+    stockText.setOrigin(0.5);
+    this.container.add(stockText);
+    
+    if (this.stock <= 0) {
+      this.background.setAlpha(0.4);
+      stickerImage.setAlpha(0.4);
+      return;
+    }
+    
     this.background.setInteractive({ useHandCursor: true })
       .on('pointerdown', () => {
         if (this.onClickCallback) {
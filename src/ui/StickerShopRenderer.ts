@@ -4,12 +4,21 @@ import { ResourceType } from '../entities/Types';
 import { DeckService } from '../services/DeckService';
 import { ResourceService, ResourceServiceEvents } from '../services/ResourceService';
 import { StickerRegistry } from '../services/StickerRegistry';
+import { StickerInventoryEvents, StickerInventoryService } from '../services/StickerInventoryService';
 import { StickerShopService } from '../services/StickerShopService';
-import { CardOverlayRenderer } from './CardOverlayRenderer';
+import { CardOverlayRenderer, CardOverlayRendererEvents } from './CardOverlayRenderer';
 import { PlayerHandRenderer, PlayerHandRendererEvents } from './PlayerHandRenderer';
 import { ResourcePanelRenderer } from './ResourcePanelRenderer';
 import { StickerInShopRenderer } from './StickerInShopRenderer';
 
+/**
+ * Upgrades the workshop performs on a card instead of selling a sticker
+ */
+enum CardUpgrade {
+  PeelSticker,
+  AddSlot
+}
+
 /**
  * Renders the sticker shop when the sticker shop building is clicked
  */
@@ -21,8 +30,11 @@ export class StickerShopRenderer {
   private shopPanel: Phaser.GameObjects.NineSlice | null = null;
   private stickerRenderers: StickerInShopRenderer[] = [];
   private selectedSticker: StickerConfig | null = null;
+  private selectedUpgrade: CardUpgrade | null = null;
+  private upgradeButtonBackgrounds: Map<CardUpgrade, Phaser.GameObjects.NineSlice> = new Map();
   private resourceService: ResourceService;
   private stickerShopService: StickerShopService;
+  private stickerInventoryService: StickerInventoryService;
   private playerHandRenderer: PlayerHandRenderer;
   private cardOverlayRenderer: CardOverlayRenderer | null = null;
   private deckService: DeckService;
@@ -50,6 +62,7 @@ export class StickerShopRenderer {
    * @param resourceService Required service for tracking resources
    * @param onApplyCallback Callback for when a sticker is applied
    * @param stickerShopService Service managing the shop state
+   * @param stickerInventoryService Service managing the stickers offered today
    * @param playerHandRenderer The player hand renderer for card selection
    * @param deckService Service for managing the deck and discard pile
    */
@@ -61,6 +74,7 @@ export class StickerShopRenderer {
     panelHeight: number,
     resourceService: ResourceService,
     stickerShopService: StickerShopService,
+    stickerInventoryService: StickerInventoryService,
     playerHandRenderer: PlayerHandRenderer,
     deckService: DeckService
   ) {
@@ -71,6 +85,7 @@ export class StickerShopRenderer {
     this.panelHeight = panelHeight;
     this.resourceService = resourceService;
     this.stickerShopService = stickerShopService;
+    this.stickerInventoryService = stickerInventoryService;
     this.playerHandRenderer = playerHandRenderer;
     this.deckService = deckService;
     
@@ -94,6 +109,7 @@ export class StickerShopRenderer {
     // Subscribe to player hand card selection changes
     this.playerHandRenderer.on(PlayerHandRendererEvents.SELECTION_CHANGED, this.onCardSelectionChanged, this );
     this.resourceService.on(ResourceServiceEvents.RESOURCE_CHANGED, this.onResourceChanged, this);
+    this.stickerInventoryService.on(StickerInventoryEvents.OFFER_CHANGED, this.onOfferChanged, this);
 
     
     // Initialize resource panel renderer
@@ -116,15 +132,37 @@ export class StickerShopRenderer {
   }
 
   /**
-   * Check if the player can afford the currently selected sticker
+   * Get the invention cost of a card upgrade
+   * @param upgrade The card upgrade
+   */
+  private getUpgradeCost(upgrade: CardUpgrade): number {
+    return upgrade === CardUpgrade.PeelSticker
+      ? this.stickerShopService.getPeelCost()
+      : this.stickerShopService.getSlotUpgradeCost();
+  }
+
+  /**
+   * Get the invention cost of the selected sticker or card upgrade
+   * @returns The cost or null if nothing is selected
+   */
+  private getSelectedCost(): number | null {
+    if (this.selectedUpgrade !== null) {
+      return this.getUpgradeCost(this.selectedUpgrade);
+    }
+    
+    return this.selectedSticker ? this.selectedSticker.cost : null;
+  }
+
+  /**
+   * Check if the player can afford the currently selected sticker or card upgrade
    * @returns True if the player has enough resources, false otherwise
    */
   private canAffordSticker(): boolean {
-    if (!this.selectedSticker) return false;
+    const stickerCost = this.getSelectedCost();
+    if (stickerCost === null) return false;
     
     const acquiredInvention = this.resourceService.getInvention();
     const selectedInvention = this.playerHandRenderer.getSelectedInventionValue();
-    const stickerCost = this.selectedSticker.cost;
     
     // Check if the total available invention value is enough to purchase the sticker
     const canAfford = (acquiredInvention + selectedInvention) >= stickerCost;    
@@ -136,8 +174,9 @@ export class StickerShopRenderer {
    */
   private onCardSelectionChanged(): void {
     // If a sticker is selected, update its affordability based on current selected cards
-    if (this.selectedSticker) {
-      this.resourcePanelRenderer.setTarget(this.canAffordSticker(), this.selectedSticker.cost);
+    const selectedCost = this.getSelectedCost();
+    if (selectedCost !== null) {
+      this.resourcePanelRenderer.setTarget(this.canAffordSticker(), selectedCost);
     }
     
     // Update affordability status for all stickers
@@ -230,10 +269,23 @@ export class StickerShopRenderer {
       closeButton.setScale(1.2);
     });
     
+    // Add the buttons to peel stickers off cards and add slots to cards
+    const peelButton = this.createUpgradeButton(this.panelX + 130, this.panelY + 30, 'Peel a sticker', CardUpgrade.PeelSticker);
+    const addSlotButton = this.createUpgradeButton(this.panelX + this.panelWidth - 180, this.panelY + 30, 'Add a slot', CardUpgrade.AddSlot);
+    
+    // Add the button to draw a new offer
+    const rerollButton = this.createShopButton(
+      this.panelX + this.panelWidth - 130,
+      this.panelY + this.panelHeight - 35,
+      `Reroll offer (${this.stickerInventoryService.getRerollCost()})`,
+      () => this.rerollOffer()
+    );
+    
     // Add all elements to the display container
     this.displayContainer.add(this.shopPanel);
     this.displayContainer.add(titleText);
     this.displayContainer.add(closeButton);
+    this.displayContainer.add([peelButton, addSlotButton, rerollButton]);
     this.displayContainer.add(this.resourcePanelRenderer.getContainer());
     
     // Initialize card overlay renderer
@@ -243,6 +295,93 @@ export class StickerShopRenderer {
     this.renderStickers();
   }
   
+  /**
+   * Create the button that selects a card upgrade
+   * @param x X position of the button center
+   * @param y Y position of the button center
+   * @param label Text on the button, the cost is appended
+   * @param upgrade The card upgrade selected by the button
+   */
+  private createUpgradeButton(x: number, y: number, label: string, upgrade: CardUpgrade): Phaser.GameObjects.Container {
+    const container = this.createShopButton(
+      x,
+      y,
+      `${label} (${this.getUpgradeCost(upgrade)})`,
+      () => this.onUpgradeClick(upgrade)
+    );
+    this.upgradeButtonBackgrounds.set(upgrade, container.getAt(0) as Phaser.GameObjects.NineSlice);
+    
+    return container;
+  }
+  
+  /**
+   * Create a button of the shop panel
+   * @param x X position of the button center
+   * @param y Y position of the button center
+   * @param label Text on the button
+   * @param onClick Callback when the button is clicked
+   */
+  private createShopButton(x: number, y: number, label: string, onClick: () => void): Phaser.GameObjects.Container {
+    const container = this.scene.add.container(x, y);
+    
+    const background = this.scene.add['nineslice'](
+      0,
+      0,
+      'panel_wood_corners_metal',
+      undefined,
+      220,
+      44,
+      20,
+      20,
+      20,
+      20
+    );
+    background.setOrigin(0.5, 0.5);
+    
+    const text = this.scene.add.text(
+      0,
+      0,
+      label,
+      {
+        fontSize: '18px',
+        color: '#ffffff'
+      }
+    );
+    text.setOrigin(0.5, 0.5);
+    
+    container.add([background, text]);
+    
+    background.setInteractive({ useHandCursor: true })
+      .on('pointerdown', onClick);
+    
+    // Button hover effects
+    background.on('pointerover', () => {
+      container.setScale(1.05);
+    });
+    
+    background.on('pointerout', () => {
+      container.setScale(1.0);
+    });
+    
+    return container;
+  }
+  
+  /**
+   * Select a card upgrade and highlight its button
+   * @param upgrade The card upgrade to select, null to deselect
+   */
+  private setSelectedUpgrade(upgrade: CardUpgrade | null): void {
+    this.selectedUpgrade = upgrade;
+    
+    this.upgradeButtonBackgrounds.forEach((background, buttonUpgrade) => {
+      if (buttonUpgrade === upgrade) {
+        background.setTint(0x88ccff);
+      } else {
+        background.clearTint();
+      }
+    });
+  }
+  
   /**
    * Initialize the card overlay renderer
    */
@@ -254,6 +393,14 @@ export class StickerShopRenderer {
       this.deckService,
       undefined,
     );
+    
+    // Card upgrades are only paid once they were actually performed
+    this.cardOverlayRenderer.on(CardOverlayRendererEvents.STICKER_PEELED, () => {
+      this.resourceService.consumeInvention(this.getUpgradeCost(CardUpgrade.PeelSticker));
+    });
+    this.cardOverlayRenderer.on(CardOverlayRendererEvents.SLOT_ADDED, () => {
+      this.resourceService.consumeInvention(this.getUpgradeCost(CardUpgrade.AddSlot));
+    });
   }
   
   /**
@@ -263,20 +410,14 @@ export class StickerShopRenderer {
     // Clear existing sticker renderers
     this.clearStickerRenderers();
     
-    // Get all sticker configurations from the registry
+    // Get the configurations of the stickers offered today
     const stickerConfigs: StickerConfig[] = [];
-    
-    // Get stickers from the sticker registry
-    // Since there's no direct method to get all stickers, we'll use the following approach
-    const stickersData = this.scene.cache.json.get('stickers');
-    if (stickersData && Array.isArray(stickersData)) {
-      stickersData.forEach(stickerData => {
-        const config = this.stickerRegistry.getStickerConfig(stickerData.id);
-        if (config) {
-          stickerConfigs.push(config);
-        }
-      });
-    }
+    this.stickerInventoryService.getOffer().forEach(entry => {
+      const config = this.stickerRegistry.getStickerConfig(entry.stickerId);
+      if (config) {
+        stickerConfigs.push(config);
+      }
+    });
     
     // Sort stickers by cost (invention price) in ascending order
     stickerConfigs.sort((a, b) => {
@@ -302,9 +443,7 @@ export class StickerShopRenderer {
     const cards = this.playerHandRenderer['currentCards'];
     if (cards && Array.isArray(cards)) {
       cards.forEach(card => {
-        if (card.getInventionValue() > 0) {
-          maxPotentialInvention += card.getInventionValue();
-        }
+        maxPotentialInvention += card.getResourceValue(ResourceType.Invention);
       });
     }
     
@@ -337,7 +476,8 @@ export class StickerShopRenderer {
         y,
         this.stickerSize,
         (config) => this.onStickerClick(config),
-        isUnaffordable
+        isUnaffordable,
+        this.stickerInventoryService.getStock(stickerConfig.id)
       );
       
       this.stickerRenderers.push(stickerRenderer);
@@ -352,6 +492,7 @@ export class StickerShopRenderer {
   private onStickerClick(stickerConfig: StickerConfig): void {
     // Select the sticker
     this.selectedSticker = stickerConfig;
+    this.setSelectedUpgrade(null);
     this.stickerRenderers.forEach(renderer => {
       renderer.setSelected(renderer.getStickerConfig().id === stickerConfig.id);
     });
@@ -360,9 +501,52 @@ export class StickerShopRenderer {
     this.resourcePanelRenderer.setTarget(this.canAffordSticker(), stickerConfig.cost);
   }
 
+  /**
+   * Handle card upgrade button click
+   * @param upgrade The clicked card upgrade
+   */
+  private onUpgradeClick(upgrade: CardUpgrade): void {
+    this.selectedSticker = null;
+    this.stickerRenderers.forEach(renderer => {
+      renderer.setSelected(false);
+    });
+    this.setSelectedUpgrade(upgrade);
+    
+    this.resourcePanelRenderer.setTarget(this.canAffordSticker(), this.getUpgradeCost(upgrade));
+  }
+
   private onResourceChanged(): void {
     this.updateStickersAffordability();
   }
+
+  /**
+   * Handler for when the offered stickers or their stock change
+   */
+  private onOfferChanged(): void {
+    // The selected sticker may have been sold out or replaced
+    if (this.selectedSticker && this.stickerInventoryService.getStock(this.selectedSticker.id) <= 0) {
+      this.deselectSticker();
+    }
+    
+    if (this.shopPanel) {
+      this.renderStickers();
+      this.updateStickersAffordability();
+      this.stickerRenderers.forEach(renderer => {
+        renderer.setSelected(renderer.getStickerConfig().id === this.selectedSticker?.id);
+      });
+    }
+  }
+
+  /**
+   * Pay the acquired invention to draw a new offer
+   */
+  private rerollOffer(): void {
+    const rerollCost = this.stickerInventoryService.getRerollCost();
+    if (this.resourceService.getInvention() < rerollCost) return;
+    
+    this.resourceService.consumeInvention(rerollCost);
+    this.stickerInventoryService.rollOffer();
+  }
   
   /**
    * Public method to show the sticker shop
@@ -483,6 +667,7 @@ export class StickerShopRenderer {
     
     this.playerHandRenderer.off(PlayerHandRendererEvents.SELECTION_CHANGED, this.onCardSelectionChanged, this );
     this.resourceService.off(ResourceServiceEvents.RESOURCE_CHANGED, this.onResourceChanged, this);
+    this.stickerInventoryService.off(StickerInventoryEvents.OFFER_CHANGED, this.onOfferChanged, this);
     
     // Clear all sticker renderers
     this.clearStickerRenderers();
@@ -516,6 +701,7 @@ export class StickerShopRenderer {
   private deselectSticker(): void {
     // Deselect the sticker in data
     this.selectedSticker = null;
+    this.setSelectedUpgrade(null);
     
     // Unhighlight all stickers
     this.stickerRenderers.forEach(renderer => {
@@ -530,19 +716,43 @@ export class StickerShopRenderer {
    * Purchase and apply the currently selected sticker
    */
   private purchaseSticker(): void {
+    if (this.selectedUpgrade !== null) {
+      this.startCardUpgrade(this.selectedUpgrade);
+      return;
+    }
+    
     if (!this.selectedSticker || !this.canAffordSticker()) return;
 
     // Store the selected sticker in a local variable
     const stickerToApply = this.selectedSticker;
     
-    // Deduct the sticker cost from ResourceService
-    this.resourceService.consumeInvention(stickerToApply.cost);
-    
     // Deselect the current sticker from the shop
     this.deselectSticker();
+    
+    // Take the sticker out of the stock and deduct its cost from ResourceService
+    if (!this.stickerInventoryService.purchase(stickerToApply.id)) return;
+    this.resourceService.consumeInvention(stickerToApply.cost);
       
     // Set the sticker in the card overlay and show it
     this.cardOverlayRenderer?.setSticker(stickerToApply);
     this.cardOverlayRenderer?.show();
   }
+  
+  /**
+   * Let the player pick the card to upgrade
+   * The invention is consumed once the upgrade is performed
+   * @param upgrade The selected card upgrade
+   */
+  private startCardUpgrade(upgrade: CardUpgrade): void {
+    if (!this.canAffordSticker()) return;
+    
+    this.deselectSticker();
+    
+    if (upgrade === CardUpgrade.PeelSticker) {
+      this.cardOverlayRenderer?.setPeelMode();
+    } else {
+      this.cardOverlayRenderer?.setAddSlotMode(card => this.stickerShopService.getSlotCap(card.race));
+    }
+    this.cardOverlayRenderer?.show();
+  }
 } 
\ No newline at end of file
@@ -1,12 +1,22 @@
 import Phaser from 'phaser';
 import { ResourceType } from '../entities/Types';
-import { ResourceService } from '../services/ResourceService';
-import { AdventureLevel, TavernService } from '../services/TavernService';
+import { ExpeditionService } from '../services/ExpeditionService';
+import { ResourceService, ResourceServiceEvents } from '../services/ResourceService';
+import { AdventureLevel, AdventureOption, TavernService } from '../services/TavernService';
 import { CARD_HEIGHT, CARD_WIDTH } from './CardRenderer';
-import { PlayerHandRenderer } from './PlayerHandRenderer';
+import { ExpeditionPanelRenderer } from './ExpeditionPanelRenderer';
+import { PlayerHandRenderer, PlayerHandRendererEvents } from './PlayerHandRenderer';
 import { ResourcePanelRenderer } from './ResourcePanelRenderer';
 import { SimpleCardRenderer } from './SimpleCardRenderer';
 
+// Names of the adventure levels shown on their cards
+const ADVENTURE_LEVEL_NAMES: Record<AdventureLevel, string> = {
+  [AdventureLevel.RECRUITMENT]: 'Recruitment',
+  [AdventureLevel.IN_TOWN]: 'In Town',
+  [AdventureLevel.OUTSIDE_TOWN]: 'Outside Town',
+  [AdventureLevel.IN_FAR_LANDS]: 'In Far Lands'
+};
+
 /**
  * Component that renders the tavern interface and adventure selection
  */
@@ -29,13 +39,25 @@ export class TavernRenderer {
   private levelCardSpacing: number = 20;
   private levelsPerRow: number = 4;
   
-  // Currently selected adventure level
+  // Currently selected adventure level and the adventure drawn for it
   private selectedLevel: AdventureLevel | null = null;
+  private selectedOption: AdventureOption | null = null;
   private levelCards: Map<AdventureLevel, SimpleCardRenderer> = new Map();
   
+  // Adventure details, odds and outcome of the last adventure
+  private adventureInfoText!: Phaser.GameObjects.Text;
+  private oddsText!: Phaser.GameObjects.Text;
+  private resultText!: Phaser.GameObjects.Text;
+  
   // Resource panel
   private resourcePanelRenderer!: ResourcePanelRenderer;
   
+  // Adventures and expeditions are shown one at a time, switched with the mode button
+  private adventureContainer!: Phaser.GameObjects.Container;
+  private expeditionPanelRenderer!: ExpeditionPanelRenderer;
+  private modeButtonText!: Phaser.GameObjects.Text;
+  private showingExpeditions: boolean = false;
+  
   // Keyboard controls
   private escKey: Phaser.Input.Keyboard.Key | null = null;
   
@@ -50,6 +72,7 @@ export class TavernRenderer {
     height: number,
     playerHandRenderer: PlayerHandRenderer,
     tavernService: TavernService,
+    expeditionService: ExpeditionService,
     resourceService: ResourceService
   ) {
     this.scene = scene;
@@ -77,11 +100,32 @@ export class TavernRenderer {
     // Create background panel
     this.createBackgroundPanel();
     
+    // Create the containers of the adventures and expeditions
+    this.adventureContainer = this.scene.add.container();
+    this.expeditionPanelRenderer = new ExpeditionPanelRenderer(
+      this.scene,
+      this.panelX,
+      this.panelY,
+      this.panelWidth,
+      this.panelHeight,
+      this.playerHandRenderer,
+      expeditionService
+    );
+    this.container.add([this.adventureContainer, this.expeditionPanelRenderer.getContainer()]);
+    this.createModeButton();
+    
     // Create resource panel
     this.createResourcePanel();
     
     // Render adventure level cards
     this.renderAdventureLevelCards();
+    
+    // Create adventure details and odds
+    this.createAdventureInfo();
+    
+    // Keep the odds up to date with the power the player can commit
+    this.playerHandRenderer.on(PlayerHandRendererEvents.SELECTION_CHANGED, this.updateOdds, this);
+    this.resourceService.on(ResourceServiceEvents.RESOURCE_CHANGED, this.updateOdds, this);
   }
   
   /**
@@ -142,6 +186,55 @@ export class TavernRenderer {
     this.container.add([background, title, closeButton]);
   }
   
+  /**
+   * Create the button switching between adventures and expeditions
+   */
+  private createModeButton(): void {
+    const button = this.scene.add['nineslice'](
+      this.panelX + 110,
+      this.panelY + 30,
+      'panel_wood_arrows',
+      undefined,
+      170,
+      40,
+      20, 20, 20, 20
+    );
+    button.setOrigin(0.5, 0.5);
+    
+    this.modeButtonText = this.scene.add.text(this.panelX + 110, this.panelY + 30, 'Expeditions', {
+      fontFamily: 'Arial',
+      fontSize: '18px',
+      color: '#ffffff'
+    });
+    this.modeButtonText.setOrigin(0.5, 0.5);
+    
+    button.setInteractive({ useHandCursor: true });
+    button.on('pointerdown', () => this.setExpeditionMode(!this.showingExpeditions));
+    button.on('pointerover', () => button.setScale(1.05));
+    button.on('pointerout', () => button.setScale(1.0));
+    
+    this.container.add([button, this.modeButtonText]);
+  }
+  
+  /**
+   * Switch between the adventures and the expeditions of the tavern
+   * @param showExpeditions Whether to show the expeditions
+   */
+  private setExpeditionMode(showExpeditions: boolean): void {
+    this.showingExpeditions = showExpeditions;
+    this.modeButtonText.setText(showExpeditions ? 'Adventures' : 'Expeditions');
+    this.adventureContainer.setVisible(!showExpeditions);
+    
+    if (showExpeditions) {
+      this.deselectLevel();
+      this.resourcePanelRenderer.hide();
+      this.expeditionPanelRenderer.show();
+    } else {
+      this.expeditionPanelRenderer.hide();
+      this.resourcePanelRenderer.show();
+    }
+  }
+  
   /**
    * Create the resource panel that shows power and provides action buttons
    */
@@ -158,19 +251,87 @@ export class TavernRenderer {
     this.container.add(this.resourcePanelRenderer.getContainer());
   }
  
+  /**
+   * Create the texts showing the drawn adventure, its odds and the outcome of the last adventure
+   */
+  private createAdventureInfo(): void {
+    const infoY = this.panelY + this.levelCardHeight + this.levelCardSpacing + 110;
+    const columnWidth = this.panelWidth / 2 - 60;
+    
+    this.adventureInfoText = this.scene.add.text(this.panelX + 40, infoY, '', {
+      fontFamily: 'Arial',
+      fontSize: '16px',
+      color: '#ffffff',
+      wordWrap: { width: columnWidth }
+    });
+    
+    this.oddsText = this.scene.add.text(this.panelX + this.panelWidth / 2 + 20, infoY, '', {
+      fontFamily: 'Arial',
+      fontSize: '20px',
+      color: '#ffffff',
+      fontStyle: 'bold'
+    });
+    
+    this.resultText = this.scene.add.text(this.panelX + this.panelWidth / 2 + 20, infoY + 35, '', {
+      fontFamily: 'Arial',
+      fontSize: '16px',
+      color: '#ffffff',
+      wordWrap: { width: columnWidth }
+    });
+    
+    this.adventureContainer.add([this.adventureInfoText, this.oddsText, this.resultText]);
+  }
+  
+  /**
+   * Show the details of the adventure drawn for the selected level
+   */
+  private updateAdventureInfo(): void {
+    if (!this.selectedOption) {
+      this.adventureInfoText.setText('Choose where to look for adventure');
+    } else {
+      this.adventureInfoText.setText([
+        this.selectedOption.name,
+        this.selectedOption.description,
+        `Power needed: ${this.selectedOption.cost}`
+      ]);
+    }
+    
+    this.updateOdds();
+  }
+  
+  /**
+   * Show the chance of succeeding the drawn adventure with the acquired and selected power
+   */
+  private updateOdds(): void {
+    if (!this.visible || !this.selectedOption) {
+      this.oddsText.setText('');
+      return;
+    }
+    
+    const chance = this.tavernService.getSuccessChance(this.selectedOption, this.resourcePanelRenderer.totalAvailable());
+    const color = chance >= 0.7 ? '#66ff66' : chance >= 0.4 ? '#ffdd66' : '#ff6666';
+    this.oddsText.setText(`Chance of success: ${Math.round(chance * 100)}%`);
+    this.oddsText.setColor(color);
+  }
+  
   /**
    * Handle Proceed button click
+   * All acquired power is committed to the drawn adventure and the outcome is rolled
    */
   private proceedWithAdventure(): void {
-    console.log('proceedWithAdventure');
-    if (!this.selectedLevel) return;
+    if (!this.selectedOption) return;
 
-    const option = this.tavernService.getAdventureOption(this.selectedLevel);
-    if (!option) throw new Error('No adventure option found');
+    const option = this.selectedOption;
+    const chance = this.tavernService.getSuccessChance(option);
 
     this.deselectLevel();
     const success = this.tavernService.attemptAdventure(option);
     this.tavernService.processAdventureResult(option, success);
+    
+    this.resultText.setText(success
+      ? `${option.name} succeeded with a ${Math.round(chance * 100)}% chance!`
+      : `${option.name} failed with a ${Math.round(chance * 100)}% chance, the committed power is lost.`);
+    this.resultText.setColor(success ? '#66ff66' : '#ff6666');
   }
   
   /**
@@ -185,9 +346,11 @@ export class TavernRenderer {
     
     // Refresh the display
     this.renderAdventureLevelCards();
+    this.resultText.setText('');
+    this.updateAdventureInfo();
     
-    // Show the resource panel
-    this.resourcePanelRenderer.show();
+    // Show the resource panel or the expeditions, depending on the last mode
+    this.setExpeditionMode(this.showingExpeditions);
   }
   
   /**
@@ -195,14 +358,15 @@ export class TavernRenderer {
    */
   public hide(): void {
     this.visible = false;
-    this.selectedLevel = null;
+    this.deselectLevel();
     this.container.setVisible(false);
     
     // Update tavern open state in service
     this.tavernService.setTavernOpen(false);
     
-    // Hide the resource panel
+    // Hide the resource panel and the expeditions
     this.resourcePanelRenderer.hide();
+    this.expeditionPanelRenderer.hide();
   }
 
   /**
@@ -218,6 +382,9 @@ export class TavernRenderer {
    * Clean up resources when destroying this object
    */
   public destroy(): void {
+    this.playerHandRenderer.off(PlayerHandRendererEvents.SELECTION_CHANGED, this.updateOdds, this);
+    this.resourceService.off(ResourceServiceEvents.RESOURCE_CHANGED, this.updateOdds, this);
+    
     // Remove keyboard controls
     if (this.escKey) {
       this.escKey.removeListener('down', this.handleEscKey, this);
@@ -229,8 +396,9 @@ export class TavernRenderer {
     this.levelCards.forEach(card => card.destroy());
     this.levelCards.clear();
     
-    // Destroy the resource panel
+    // Destroy the resource panel and the expeditions
     this.resourcePanelRenderer.destroy();
+    this.expeditionPanelRenderer.destroy();
     
     this.container.destroy();
   }
@@ -265,13 +433,21 @@ export class TavernRenderer {
         () => this.onLevelCardClicked(level)
       );
       
+      const levelName = this.scene.add.text(0, this.levelCardHeight / 2 + 14, ADVENTURE_LEVEL_NAMES[level], {
+        fontFamily: 'Arial',
+        fontSize: '16px',
+        color: '#ffffff'
+      });
+      levelName.setOrigin(0.5, 0.5);
+      card.getContainer().add(levelName);
+      
       // If this is the previously selected level, select it
       if (this.selectedLevel === level) {
         card.setSelected(true);
       }
       
       this.levelCards.set(level, card);
-      this.container.add(card.getContainer());
+      this.adventureContainer.add(card.getContainer());
     });
   }
 
@@ -289,13 +465,30 @@ export class TavernRenderer {
     
     // Deselect the level
     this.selectedLevel = null;
+    this.selectedOption = null;
     
     // Update the resource panel target
     this.resourcePanelRenderer.setTarget(false);
+    this.updateAdventureInfo();
   }
   
-  private onLevelCardClicked(level: AdventureLevel): void {        
-    this.selectedLevel = level;    
-    this.resourcePanelRenderer.setTarget(this.selectedLevel !== null);
+  /**
+   * Select a level and draw the adventure the player can commit power to
+   * Clicking the selected level again deselects it
+   */
+  private onLevelCardClicked(level: AdventureLevel): void {
+    if (this.selectedLevel === level) {
+      this.deselectLevel();
+      return;
+    }
+    
+    this.deselectLevel();
+    this.selectedLevel = level;
+    this.selectedOption = this.tavernService.getAdventureOption(level);
+    this.levelCards.get(level)?.setSelected(true);
+    
+    // At least one power must be committed to go on an adventure
+    this.resourcePanelRenderer.setTarget(true, 1);
+    this.updateAdventureInfo();
   }
 } 
\ No newline at end of file
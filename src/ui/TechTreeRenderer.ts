@@ -0,0 +1,209 @@
+import Phaser from 'phaser';
+import { BuildingConfig } from '../entities/Building';
+import { BuildingService } from '../services/BuildingService';
+
+/**
+ * Renders a modal overview of all buildings ordered by their prerequisites
+ * Every column holds the buildings that only depend on buildings of the previous columns,
+ * higher tiers are placed after the building they are upgraded from
+ * The overview destroys itself when closed
+ */
+export class TechTreeRenderer {
+  private scene: Phaser.Scene;
+  private buildingService: BuildingService;
+  private displayContainer: Phaser.GameObjects.Container;
+  private buildings: BuildingConfig[];
+
+  // Dialog dimensions
+  private dialogWidth: number = 1200;
+  private dialogHeight: number = 640;
+  private headerHeight: number = 90;
+  private entryWidth: number = 210;
+  private entryHeight: number = 60;
+  private entrySpacingX: number = 20;
+  private entrySpacingY: number = 6;
+
+  /**
+   * Create and show a new TechTreeRenderer
+   * @param scene The Phaser scene to render in
+   * @param buildingService Service for checking which buildings are constructed and unlocked
+   */
+  constructor(scene: Phaser.Scene, buildingService: BuildingService) {
+    this.scene = scene;
+    this.buildingService = buildingService;
+    this.buildings = this.buildingService.getAllBuildingIds()
+      .map(buildingId => this.buildingService.getBuildingConfig(buildingId));
+
+    const { width, height } = this.scene.cameras.main;
+    this.displayContainer = this.scene.add.container(width / 2, height / 2);
+
+    // Render above the building menu
+    this.displayContainer.setDepth(3000);
+
+    // Block clicks on everything behind the overview
+    const inputBlocker = this.scene.add.rectangle(0, 0, width, height, 0x000000, 0.5);
+    inputBlocker.setOrigin(0.5, 0.5);
+    inputBlocker.setInteractive();
+
+    const background = this.scene.add['nineslice'](
+      0,
+      0,
+      'panel_metal_corners_metal_nice',
+      undefined,
+      this.dialogWidth,
+      this.dialogHeight,
+      20,
+      20,
+      20,
+      20
+    );
+    background.setOrigin(0.5, 0.5);
+
+    const titleText = this.scene.add.text(0, -this.dialogHeight / 2 + 35, 'Tech Tree', {
+      fontSize: '24px',
+      color: '#ffffff'
+    });
+    titleText.setOrigin(0.5, 0.5);
+
+    const legendText = this.scene.add.text(0, -this.dialogHeight / 2 + 65, 'Green: constructed, white: available, grey: locked', {
+      fontSize: '15px',
+      color: '#dddddd'
+    });
+    legendText.setOrigin(0.5, 0.5);
+
+    const closeButton = this.scene.add.image(this.dialogWidth / 2 - 30, -this.dialogHeight / 2 + 30, 'round_metal_cross');
+    closeButton.setInteractive({ useHandCursor: true })
+      .on('pointerdown', () => this.destroy());
+
+    this.displayContainer.add([inputBlocker, background, titleText, legendText, closeButton]);
+
+    this.createEntries();
+  }
+
+  /**
+   * Create an entry for every building, placed in the column of its depth in the tree
+   * Columns with more buildings than fit the dialog continue in the next column
+   */
+  private createEntries(): void {
+    const rowsPerColumn = Math.max(1, Math.floor(
+      (this.dialogHeight - this.headerHeight - 20) / (this.entryHeight + this.entrySpacingY)
+    ));
+    const depths = new Map<string, number>();
+    this.buildings.forEach(building => this.getDepth(building.id, depths, []));
+    const maxDepth = Math.max(0, ...Array.from(depths.values()));
+
+    let column = 0;
+    for (let depth = 0; depth <= maxDepth; depth++) {
+      const buildingsAtDepth = this.buildings.filter(building => depths.get(building.id) === depth);
+      buildingsAtDepth.forEach((building, index) => {
+        const x = -this.dialogWidth / 2 + 30 + this.entryWidth / 2 +
+          (column + Math.floor(index / rowsPerColumn)) * (this.entryWidth + this.entrySpacingX);
+        const y = -this.dialogHeight / 2 + this.headerHeight + this.entryHeight / 2 +
+          (index % rowsPerColumn) * (this.entryHeight + this.entrySpacingY);
+        this.displayContainer.add(this.createEntry(building, x, y));
+      });
+      column += Math.ceil(buildingsAtDepth.length / rowsPerColumn);
+    }
+  }
+
+  /**
+   * Create the entry of a single building
+   * @param building The building to show
+   * @param x X position of the entry center
+   * @param y Y position of the entry center
+   */
+  private createEntry(building: BuildingConfig, x: number, y: number): Phaser.GameObjects.Container {
+    const container = this.scene.add.container(x, y);
+
+    const background = this.scene.add['nineslice'](
+      0,
+      0,
+      'panel_wood_corners_metal',
+      undefined,
+      this.entryWidth,
+      this.entryHeight,
+      20,
+      20,
+      20,
+      20
+    );
+    background.setOrigin(0.5, 0.5);
+    if (this.buildingService.isBuildingConstructed(building.id)) {
+      background.setTint(0x99ff99);
+    } else if (!this.buildingService.isBuildingUnlocked(building.id)) {
+      background.setTint(0x888888);
+    }
+
+    const text = this.scene.add.text(0, 0, [building.name, this.describeRequirements(building)], {
+      fontSize: '13px',
+      color: '#ffffff',
+      align: 'center',
+      wordWrap: { width: this.entryWidth - 20 }
+    });
+    text.setOrigin(0.5, 0.5);
+
+    container.add([background, text]);
+    return container;
+  }
+
+  /**
+   * Describe what a building needs before it can be constructed
+   * @param building The building to describe
+   */
+  private describeRequirements(building: BuildingConfig): string {
+    const needs: string[] = [];
+
+    const upgradedFrom = this.buildings.find(candidate => candidate.upgradesTo === building.id);
+    if (upgradedFrom) {
+      needs.push(`upgrade of ${upgradedFrom.name}`);
+    }
+
+    if (building.requires) {
+      building.requires.buildings.forEach(requiredId => {
+        needs.push(this.buildingService.getBuildingConfig(requiredId).name);
+      });
+      if (building.requires.day > 1) {
+        needs.push(`day ${building.requires.day}`);
+      }
+      if (building.requires.inventionSpent > 0) {
+        needs.push(`${building.requires.inventionSpent} invention spent`);
+      }
+    }
+
+    return needs.length > 0 ? `Needs ${needs.join(', ')}` : 'No requirements';
+  }
+
+  /**
+   * Get the depth of a building in the tree
+   * Buildings without prerequisites are at depth 0, the others one deeper than their deepest prerequisite
+   * @param buildingId The ID of the building
+   * @param depths Depths computed so far
+   * @param visiting IDs of the buildings whose depth is being computed, to stop at cyclic prerequisites
+   */
+  private getDepth(buildingId: string, depths: Map<string, number>, visiting: string[]): number {
+    const known = depths.get(buildingId);
+    if (known !== undefined) return known;
+    if (visiting.includes(buildingId)) return 0;
+
+    const building = this.buildingService.getBuildingConfig(buildingId);
+    const prerequisites = [
+      ...(building.requires?.buildings || []),
+      ...this.buildings.filter(candidate => candidate.upgradesTo === buildingId).map(candidate => candidate.id)
+    ];
+
+    const depth = prerequisites.length === 0
+      ? 0
+      : 1 + Math.max(...prerequisites.map(prerequisiteId =>
+        this.getDepth(prerequisiteId, depths, [...visiting, buildingId])));
+
+    depths.set(buildingId, depth);
+    return depth;
+  }
+
+  /**
+   * Destroy the overview and all its visual elements
+   */
+  public destroy(): void {
+    this.displayContainer.destroy();
+  }
+}